@@ -23,22 +23,34 @@
  */
 
 // Import Lit libraries
-import { LitElement, PropertyValues, TemplateResult } from 'lit';
+import { LitElement, PropertyValues, TemplateResult, html, nothing } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 
 // Import all types via namespace for cleaner imports
 import * as Config from './config/config';
 import * as Constants from './config/constants';
 import * as Types from './config/types';
+import * as Migration from './config/migration';
+import * as Validation from './config/validation';
 import * as Localize from './translations/localize';
 import * as EventUtils from './utils/events';
+import * as Sharing from './utils/sharing';
 import * as Actions from './interaction/actions';
 import * as Helpers from './utils/helpers';
+import * as FormatUtils from './utils/format';
 import * as Logger from './utils/logger';
 import * as Editor from './rendering/editor';
 import * as Styles from './rendering/styles';
 import * as Feedback from './interaction/feedback';
 import * as Render from './rendering/render';
+import * as MonthView from './rendering/month';
+import * as TimelineView from './rendering/timeline';
+import * as Details from './rendering/details';
+import * as EventForm from './rendering/form';
+import * as Changes from './utils/changes';
+import * as Mutations from './utils/mutations';
+import * as Visibility from './utils/visibility';
+import * as Weather from './utils/weather';
 
 //-----------------------------------------------------------------------------
 // GLOBAL TYPE DECLARATIONS
@@ -80,18 +92,55 @@ class CalendarCardPro extends LitElement {
   @property({ attribute: false }) events: Types.CalendarEventData[] = [];
   @property({ attribute: false }) isLoading = true;
   @property({ attribute: false }) isExpanded = false;
+  @property({ attribute: false }) selectedEvent: Types.CalendarEventData | null = null;
+  @property({ attribute: false }) eventForm: Types.EventFormData | null = null;
+  @property({ attribute: false }) eventFormError = '';
+  @property({ attribute: false }) isSavingEvent = false;
+  @property({ attribute: false }) confirmDelete = false;
+  @property({ attribute: false }) recurrenceScope: Types.RecurrenceScope = 'this';
+  @property({ attribute: false }) detailsError = '';
+  @property({ attribute: false }) navigationOffset = 0;
+  @property({ attribute: false }) migrationNotice: Types.AppliedMigration[] = [];
+  @property({ attribute: false }) failedEntities: string[] = [];
+  @property({ attribute: false }) dataTimestamp: number | null = null;
+  @property({ attribute: false }) loadFailed = false;
+  @property({ attribute: false }) hiddenEntities = new Set<string>();
+  @property({ attribute: false }) forecast: Types.WeatherForecast[] = [];
+  @property({ attribute: false }) configValidation: Types.ConfigValidationResult = {
+    errors: [],
+    warnings: [],
+  };
 
   // Private, non-reactive properties
   private _instanceId = Helpers.generateInstanceId();
+  private _requesterId = Helpers.generateInstanceId();
   private _language = '';
-  private _refreshTimerId?: number;
+  private _userConfig: Record<string, unknown> = {};
+  private _validatedEntityKey = '';
+  private _cancelRefresh?: () => void;
+  private _clockTimerId?: number;
+  private _midnightTimerId?: number;
+  private _currentDayKey = FormatUtils.getLocalDateKey(new Date());
   private _lastUpdateTime = Date.now();
 
+  // Live update state
+  private _liveUpdateTimerId?: number;
+  private _pendingEntityUpdates = new Set<string>();
+
+  // Shared update state
+  private _unsubscribeSharedUpdates?: () => void;
+  private _sharedUpdateTimerId?: number;
+
+  // Weather forecast state
+  private _unsubscribeForecast?: () => void;
+  private _forecastEntityId?: string;
+
   // Interaction state
   private _activePointerId: number | null = null;
   private _holdTriggered = false;
   private _holdTimer: number | null = null;
   private _holdIndicator: HTMLElement | null = null;
+  private _swipeStart: { x: number; y: number } | null = null;
 
   //-----------------------------------------------------------------------------
   // COMPUTED GETTERS
@@ -114,13 +163,48 @@ class CalendarCardPro extends LitElement {
     return this._language || 'en';
   }
 
+  /**
+   * Get the time zone events are shown in
+   * Defaults to the Home Assistant server zone, so devices set to another zone show server time
+   */
+  get timeZone(): string | undefined {
+    return this.config.time_zone || this.hass?.config?.time_zone;
+  }
+
+  /**
+   * Get the card configuration with the effective display time zone
+   */
+  get displayConfig(): Types.Config {
+    const timeZone = this.timeZone;
+    return timeZone === this.config.time_zone
+      ? this.config
+      : { ...this.config, time_zone: timeZone };
+  }
+
+  /**
+   * Get the configuration of the currently shown window
+   * Differs from the card configuration while navigating away from the configured window
+   */
+  get viewConfig(): Types.Config {
+    return EventUtils.getNavigatedConfig(this.displayConfig, this.navigationOffset);
+  }
+
+  /**
+   * Get the events of the calendars not hidden in the configuration or with the legend
+   * Hidden calendars stay hidden when the legend is turned off
+   */
+  get visibleEvents(): Types.CalendarEventData[] {
+    if (!this.hiddenEntities.size) return this.events;
+    return this.events.filter((event) => !this.hiddenEntities.has(event._entityId || ''));
+  }
+
   /**
    * Get events grouped by day
    */
   get groupedEvents(): Types.EventsByDay[] {
     return EventUtils.groupEventsByDay(
-      this.events,
-      this.config,
+      this.visibleEvents,
+      this.viewConfig,
       this.isExpanded,
       this.effectiveLanguage,
     );
@@ -131,7 +215,7 @@ class CalendarCardPro extends LitElement {
   //-----------------------------------------------------------------------------
 
   static get styles() {
-    return Styles.cardStyles;
+    return [Styles.cardStyles, Styles.migrationNoticeStyles];
   }
 
   //-----------------------------------------------------------------------------
@@ -150,20 +234,47 @@ class CalendarCardPro extends LitElement {
 
     // Set up refresh timer
     this.startRefreshTimer();
+    this.startClockTimer();
+    this.startMidnightTimer();
+    this._currentDayKey = FormatUtils.getLocalDateKey(FormatUtils.getZonedNow(this.timeZone));
 
     // Load events on initial connection
     this.updateEvents();
 
+    // Subscribe to the weather forecast
+    this._subscribeForecast();
+
+    // Pick up events fetched by other cards and tabs
+    this._unsubscribeSharedUpdates = Sharing.subscribeEventUpdates(
+      this._requesterId,
+      (entityId, timestamp) => this._handleSharedUpdate(entityId, timestamp),
+    );
+
     // Set up visibility listener
     document.addEventListener('visibilitychange', this._handleVisibilityChange);
+
+    // Set up swipe navigation listeners
+    this.addEventListener('pointerdown', this._handleSwipeStart, { capture: true });
+    this.addEventListener('pointerup', this._handleSwipeEnd, { capture: true });
   }
 
   disconnectedCallback() {
     super.disconnectedCallback();
 
     // Clean up timers
-    if (this._refreshTimerId) {
-      clearTimeout(this._refreshTimerId);
+    if (this._cancelRefresh) {
+      this._cancelRefresh();
+      this._cancelRefresh = undefined;
+    }
+
+    if (this._clockTimerId) {
+      clearTimeout(this._clockTimerId);
+      this._clockTimerId = undefined;
+    }
+
+    if (this._midnightTimerId) {
+      clearTimeout(this._midnightTimerId);
+      this._midnightTimerId = undefined;
     }
 
     if (this._holdTimer) {
@@ -171,14 +282,36 @@ class CalendarCardPro extends LitElement {
       this._holdTimer = null;
     }
 
+    if (this._liveUpdateTimerId) {
+      clearTimeout(this._liveUpdateTimerId);
+      this._liveUpdateTimerId = undefined;
+    }
+
+    if (this._sharedUpdateTimerId) {
+      clearTimeout(this._sharedUpdateTimerId);
+      this._sharedUpdateTimerId = undefined;
+    }
+
     // Clean up hold indicator if it exists
     if (this._holdIndicator) {
       Feedback.removeHoldIndicator(this._holdIndicator);
       this._holdIndicator = null;
     }
 
+    // Drop calendar changes waiting for the debounced refetch
+    this._pendingEntityUpdates.clear();
+
+    if (this._unsubscribeSharedUpdates) {
+      this._unsubscribeSharedUpdates();
+      this._unsubscribeSharedUpdates = undefined;
+    }
+
+    this._unsubscribeForecastUpdates();
+
     // Remove listeners
     document.removeEventListener('visibilitychange', this._handleVisibilityChange);
+    this.removeEventListener('pointerdown', this._handleSwipeStart, { capture: true });
+    this.removeEventListener('pointerup', this._handleSwipeEnd, { capture: true });
 
     Logger.debug('Component disconnected');
   }
@@ -191,6 +324,28 @@ class CalendarCardPro extends LitElement {
     ) {
       this._language = Localize.getEffectiveLanguage(this.config.language, this.hass?.locale);
     }
+
+    // Refetch calendars whose state changed and subscribe to the forecast once hass is available
+    if (changedProps.has('hass')) {
+      if (this._getEntityPresenceKey() !== this._validatedEntityKey) {
+        this._validateConfig();
+      }
+
+      const changedEntityIds = Changes.getChangedEntityIds(
+        changedProps.get('hass') as Types.Hass | undefined,
+        this.hass,
+        this.config.entities.map((e) => (typeof e === 'string' ? e : e.entity)),
+      );
+      if (changedEntityIds.length) {
+        this._scheduleLiveUpdate(changedEntityIds);
+      }
+      this._subscribeForecast();
+    }
+
+    // Event starts and ends drive the clock, reschedule it for the new events
+    if (changedProps.has('events')) {
+      this.startClockTimer();
+    }
   }
 
   //-----------------------------------------------------------------------------
@@ -210,7 +365,16 @@ class CalendarCardPro extends LitElement {
    * Handle visibility changes to refresh data when returning to the page
    */
   private _handleVisibilityChange = () => {
+    // The clock pauses while hidden and catches up on the time that passed when shown again
+    this.startClockTimer();
+
     if (document.visibilityState === 'visible') {
+      this.requestUpdate();
+
+      // Timers may have been delayed while the device was asleep
+      this.startMidnightTimer();
+      if (this._checkDayRollover()) return;
+
       const now = Date.now();
       // Only refresh if it's been a while
       if (now - this._lastUpdateTime > Constants.TIMING.VISIBILITY_REFRESH_THRESHOLD) {
@@ -222,22 +386,229 @@ class CalendarCardPro extends LitElement {
 
   /**
    * Start the refresh timer
+   * The timer is shared with all cards using the same refresh interval
    */
   private startRefreshTimer() {
-    if (this._refreshTimerId) {
-      clearTimeout(this._refreshTimerId);
+    if (this._cancelRefresh) {
+      this._cancelRefresh();
+    }
+
+    this._cancelRefresh = Sharing.scheduleAlignedRefresh(
+      EventUtils.getCacheDuration(this.config),
+      () => this.updateEvents(),
+    );
+  }
+
+  /**
+   * Start the clock that re-renders the time-dependent parts of the card
+   * Ticks on minute boundaries while countdowns, progress bars or the current
+   * time line are shown, and at every event start and end so rows change state on time.
+   * The clock pauses while the document is hidden.
+   */
+  private startClockTimer() {
+    if (this._clockTimerId) {
+      clearTimeout(this._clockTimerId);
+      this._clockTimerId = undefined;
+    }
+
+    if (!this.isConnected || document.visibilityState === 'hidden') {
+      return;
+    }
+
+    const now = Date.now();
+    const tickInterval = Constants.TIMING.CLOCK_TICK_INTERVAL;
+    const showsMinutes =
+      this.config.view === 'week' ||
+      this.config.view === 'day' ||
+      this.config.show_countdown ||
+      this.config.show_progress_bar;
+
+    const nextTick = [
+      EventUtils.getNextEventTransition(this.events, now),
+      showsMinutes ? Math.floor(now / tickInterval) * tickInterval + tickInterval : null,
+    ].reduce<number | null>(
+      (next, time) => (time !== null && (next === null || time < next) ? time : next),
+      null,
+    );
+
+    if (nextTick === null) {
+      return;
+    }
+
+    // Fire just after the transition, the renderers compare against the current time
+    this._clockTimerId = window.setTimeout(
+      () => {
+        this._clockTimerId = undefined;
+        this.requestUpdate();
+        this.startClockTimer();
+      },
+      Math.min(nextTick - now + 1, Constants.TIMING.CLOCK_MAX_DELAY),
+    );
+  }
+
+  /**
+   * Start the timer that moves the card to the new day at local midnight
+   * The next midnight is computed from the calendar date, so days with a
+   * daylight saving transition roll over on time as well
+   */
+  private startMidnightTimer() {
+    if (this._midnightTimerId) {
+      clearTimeout(this._midnightTimerId);
+      this._midnightTimerId = undefined;
+    }
+
+    if (!this.isConnected) {
+      return;
+    }
+
+    // Midnight of the display time zone, converted back to a point in time for the timer
+    const nextMidnight = FormatUtils.fromZonedDate(
+      FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(this.timeZone), 1),
+      this.timeZone,
+    );
+
+    this._midnightTimerId = window.setTimeout(
+      () => {
+        this._midnightTimerId = undefined;
+        this._checkDayRollover();
+        this.startMidnightTimer();
+      },
+      nextMidnight.getTime() - Date.now() + Constants.TIMING.MIDNIGHT_ROLLOVER_DELAY,
+    );
+  }
+
+  /**
+   * Move the card to the new day if the date changed since the last check
+   * The reference day, today indicator, week numbers and separators are recomputed
+   * on render, and the events of the shifted window are fetched in the background
+   *
+   * @returns True if the day changed
+   */
+  private _checkDayRollover(): boolean {
+    const dayKey = FormatUtils.getLocalDateKey(FormatUtils.getZonedNow(this.timeZone));
+    if (dayKey === this._currentDayKey) {
+      return false;
     }
 
-    const refreshMinutes =
-      this.config.refresh_interval || Constants.CACHE.DEFAULT_DATA_REFRESH_MINUTES;
-    const refreshMs = refreshMinutes * 60 * 1000;
+    Logger.debug(`Day changed from ${this._currentDayKey} to ${dayKey}, moving to the new day`);
+    this._currentDayKey = dayKey;
+    this.requestUpdate();
+    this.startClockTimer();
+    this.updateEvents();
+    return true;
+  }
+
+  /**
+   * Validate the configuration as written and log its issues
+   * Runs on setConfig and when configured entities appear in or disappear from
+   * hass.states, not on every render
+   */
+  private _validateConfig() {
+    this._validatedEntityKey = this._getEntityPresenceKey();
+    this.configValidation = Validation.validateConfig(this._userConfig, this.safeHass);
 
-    this._refreshTimerId = window.setTimeout(() => {
+    this.configValidation.errors.forEach((issue) =>
+      Logger.error(`Config error in ${issue.path}: ${issue.message}`),
+    );
+    this.configValidation.warnings.forEach((issue) =>
+      Logger.warn(`Config warning in ${issue.path}: ${issue.message}`),
+    );
+  }
+
+  /**
+   * Describe which of the configured entities exist in Home Assistant
+   *
+   * @returns Key that changes when a configured entity appears or disappears
+   */
+  private _getEntityPresenceKey(): string {
+    const hass = this.safeHass;
+    if (!hass) return '';
+
+    const entityIds = this.config.entities.map((e) => (typeof e === 'string' ? e : e.entity));
+    if (this.config.weather_entity) {
+      entityIds.push(this.config.weather_entity);
+    }
+    return entityIds.map((entityId) => (hass.states[entityId] ? '1' : '0')).join('');
+  }
+
+  /**
+   * Subscribe to the daily forecast of the configured weather entity
+   * An existing subscription is kept unless the weather entity changed
+   */
+  private _subscribeForecast() {
+    const entityId = this.config.weather_entity;
+    if (this._forecastEntityId === entityId && (this._unsubscribeForecast || !entityId)) {
+      return;
+    }
+
+    this._unsubscribeForecastUpdates();
+    if (!entityId || !this.isConnected || !this.hass?.connection) {
+      return;
+    }
+
+    this._forecastEntityId = entityId;
+    this._unsubscribeForecast = Weather.subscribeForecast(this.hass, entityId, (forecast) => {
+      this.forecast = forecast;
+    });
+  }
+
+  /**
+   * Remove the forecast subscription and the forecast shown
+   */
+  private _unsubscribeForecastUpdates() {
+    if (this._unsubscribeForecast) {
+      this._unsubscribeForecast();
+      this._unsubscribeForecast = undefined;
+    }
+    this._forecastEntityId = undefined;
+    if (this.forecast.length) {
+      this.forecast = [];
+    }
+  }
+
+  /**
+   * Reload events after another card or tab fetched newer events of a shown calendar
+   * The events are read from the event store, no request is sent
+   */
+  private _handleSharedUpdate(entityId: string, timestamp: number) {
+    const entityIds = this.config.entities.map((e) => (typeof e === 'string' ? e : e.entity));
+    if (
+      !entityIds.includes(entityId) ||
+      this.dataTimestamp === null ||
+      this.dataTimestamp >= timestamp
+    ) {
+      return;
+    }
+
+    if (this._sharedUpdateTimerId) {
+      clearTimeout(this._sharedUpdateTimerId);
+    }
+
+    this._sharedUpdateTimerId = window.setTimeout(() => {
+      this._sharedUpdateTimerId = undefined;
+      Logger.debug(`Applying events of ${entityId} fetched elsewhere`);
       this.updateEvents();
-      this.startRefreshTimer();
-    }, refreshMs);
+    }, Constants.SHARING.SHARED_UPDATE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Collect changed entities and refetch them after a short debounce
+   */
+  private _scheduleLiveUpdate(entityIds: string[]) {
+    entityIds.forEach((entityId) => this._pendingEntityUpdates.add(entityId));
+
+    if (this._liveUpdateTimerId) {
+      clearTimeout(this._liveUpdateTimerId);
+    }
+
+    this._liveUpdateTimerId = window.setTimeout(() => {
+      this._liveUpdateTimerId = undefined;
+      const changedEntityIds = [...this._pendingEntityUpdates];
+      this._pendingEntityUpdates.clear();
 
-    Logger.debug(`Scheduled next refresh in ${refreshMinutes} minutes`);
+      Logger.debug(`Live update for ${changedEntityIds.join(', ')}`);
+      this.updateEvents(true, changedEntityIds);
+    }, Constants.TIMING.LIVE_UPDATE_DEBOUNCE);
   }
 
   /**
@@ -327,6 +698,59 @@ class CalendarCardPro extends LitElement {
     }
   }
 
+  /**
+   * Remember where touches start to detect navigation swipes
+   * Listens in the capture phase so swipes starting on tappable events are detected too
+   */
+  private _handleSwipeStart = (ev: PointerEvent) => {
+    this._swipeStart =
+      this.config.show_navigation &&
+      ev.pointerType === 'touch' &&
+      !this.selectedEvent &&
+      !this.eventForm
+        ? { x: ev.clientX, y: ev.clientY }
+        : null;
+  };
+
+  /**
+   * Navigate on horizontal swipes instead of executing the tap or hold action
+   * Swiping left shows the next window, swiping right the previous one
+   */
+  private _handleSwipeEnd = (ev: PointerEvent) => {
+    if (!this._swipeStart) return;
+
+    const deltaX = ev.clientX - this._swipeStart.x;
+    const deltaY = ev.clientY - this._swipeStart.y;
+    this._swipeStart = null;
+
+    if (Math.abs(deltaX) < Constants.UI.SWIPE_THRESHOLD || Math.abs(deltaX) < Math.abs(deltaY)) {
+      return;
+    }
+
+    Logger.debug(`Swipe navigation (${deltaX < 0 ? 'next' : 'previous'})`);
+    this._handlePointerCancel();
+    this.navigate(deltaX < 0 ? 1 : -1);
+  };
+
+  /**
+   * Forget the events on screen when they belong to a different window or configuration
+   * The next update shows stale cached events or the loading state instead
+   */
+  private _clearShownEvents() {
+    this.events = [];
+    this.dataTimestamp = null;
+    this.failedEntities = [];
+    this.loadFailed = false;
+  }
+
+  /**
+   * Drop the stored events of all configured calendars
+   * Used after modifying events so the next update can't fall back to outdated data
+   */
+  private async _invalidateEventCache() {
+    await EventUtils.invalidateCachedEvents(this.config);
+  }
+
   /**
    * Handle keyboard navigation for accessibility
    */
@@ -340,6 +764,47 @@ class CalendarCardPro extends LitElement {
     }
   }
 
+  /**
+   * Build the edit/delete actions of the details dialog
+   * Actions are only offered for events with a uid in calendars that support them
+   */
+  private _getEventDetailsActions(event: Types.CalendarEventData): Types.EventDetailsActions {
+    const hasUid = Boolean(event.uid);
+
+    return {
+      canEdit:
+        hasUid &&
+        Mutations.entitySupportsFeature(
+          this.safeHass,
+          event._entityId,
+          Constants.CALENDAR_FEATURES.UPDATE_EVENT,
+        ),
+      canDelete:
+        hasUid &&
+        Mutations.entitySupportsFeature(
+          this.safeHass,
+          event._entityId,
+          Constants.CALENDAR_FEATURES.DELETE_EVENT,
+        ),
+      confirmDelete: this.confirmDelete,
+      scope: this.recurrenceScope,
+      error: this.detailsError,
+      busy: this.isSavingEvent,
+      edit: () => this.editSelectedEvent(),
+      requestDelete: () => {
+        this.confirmDelete = true;
+      },
+      confirm: () => this.deleteSelectedEvent(),
+      cancelDelete: () => {
+        this.confirmDelete = false;
+        this.detailsError = '';
+      },
+      scopeChange: (scope) => {
+        this.recurrenceScope = scope;
+      },
+    };
+  }
+
   //-----------------------------------------------------------------------------
   // PUBLIC METHODS
   //-----------------------------------------------------------------------------
@@ -350,30 +815,22 @@ class CalendarCardPro extends LitElement {
   setConfig(config: Partial<Types.Config>) {
     const previousConfig = this.config;
 
-    // First do the standard merging
-    let mergedConfig = { ...Config.DEFAULT_CONFIG, ...config };
+    // Rewrite deprecated options before anything else reads the configuration
+    const migration = Migration.migrateConfig({ ...config });
+    migration.applied.forEach((applied) =>
+      Logger.warn(
+        `Option "${applied.from}" is deprecated and will be removed in v3.0, use "${applied.to}" instead`,
+      ),
+    );
 
-    //============================================================================
-    // DEPRECATED PARAMETERS HANDLING - WILL BE REMOVED IN v3.0
-    // The following code provides backwards compatibility for deprecated parameters
-    // horizontal_line_width -> day_separator_width
-    // horizontal_line_color -> day_separator_color
-    //============================================================================
-    if (!config.day_separator_width && config.horizontal_line_width) {
-      mergedConfig.day_separator_width = config.horizontal_line_width;
-    }
+    // Keep the migrated configuration as written for validation against hass.states
+    this._userConfig = migration.config;
 
-    if (!config.day_separator_color && config.horizontal_line_color) {
-      mergedConfig.day_separator_color = config.horizontal_line_color;
-    }
-    //============================================================================
-    // END OF DEPRECATED PARAMETERS HANDLING
-    //============================================================================
-
-    this.config = mergedConfig;
+    this.config = { ...Config.DEFAULT_CONFIG, ...(migration.config as Partial<Types.Config>) };
     this.config.entities = Config.normalizeEntities(this.config.entities);
+    this._validateConfig();
 
-    // Generate deterministic ID for caching
+    // Generate deterministic ID for state kept per card (dismissed notices, hidden calendars)
     this._instanceId = Helpers.generateDeterministicId(
       this.config.entities,
       this.config.days_to_show,
@@ -381,22 +838,46 @@ class CalendarCardPro extends LitElement {
       this.config.start_date,
     );
 
+    // Restore the calendars hidden with the legend, falling back to hidden_entities
+    this.hiddenEntities = Visibility.getHiddenEntities(
+      this._instanceId,
+      this.config.hidden_entities,
+    );
+
+    // Show the upgrade notice unless it was dismissed for the same migrations
+    this.migrationNotice = Migration.isNoticeDismissed(this._instanceId, migration.applied)
+      ? []
+      : migration.applied;
+
     // Check if we need to reload data
     const configChanged = Config.hasConfigChanged(previousConfig, this.config);
     if (configChanged) {
       Logger.debug('Configuration changed, refreshing data');
+      this.navigationOffset = 0;
+      this._clearShownEvents();
       this.updateEvents(true);
     }
 
-    // Restart the timer with new config
-    this.startRefreshTimer();
+    // Restart the timers with new config, midnight follows a changed time zone
+    if (this.isConnected) {
+      this.startRefreshTimer();
+      this.startClockTimer();
+      this.startMidnightTimer();
+      this._currentDayKey = FormatUtils.getLocalDateKey(FormatUtils.getZonedNow(this.timeZone));
+    }
+
+    // Follow a changed weather entity
+    this._subscribeForecast();
   }
 
   /**
    * Update calendar events from API or cache
    * Simplified for card-mod compatibility
+   *
+   * @param force - Whether to bypass the cache
+   * @param entityIds - Optional subset of entities to refetch in the background (live updates)
    */
-  async updateEvents(force = false): Promise<void> {
+  async updateEvents(force = false, entityIds?: string[]): Promise<void> {
     Logger.debug(`Updating events (force=${force})`);
 
     // Skip update if no Home Assistant connection or no entities
@@ -405,33 +886,257 @@ class CalendarCardPro extends LitElement {
       return;
     }
 
-    try {
-      // Set loading state first (triggers render with stable DOM)
-      this.isLoading = true;
+    // Results of a window the user has navigated away from in the meantime are discarded
+    const navigationOffset = this.navigationOffset;
 
-      // Wait for loading render to complete
-      await this.updateComplete;
+    try {
+      // Events already on screen stay visible while the refresh runs in the background
+      // Without them, the last (possibly expired) cached events are shown instead
+      if (this.dataTimestamp === null) {
+        const staleData = await EventUtils.getStaleEventData(this.viewConfig);
+        if (navigationOffset !== this.navigationOffset) return;
+
+        if (staleData) {
+          Logger.info(`Showing ${staleData.events.length} stale events while refreshing`);
+          this.events = [...staleData.events];
+          this.dataTimestamp = staleData.timestamp;
+          this.isLoading = false;
+        } else {
+          // Set loading state first (triggers render with stable DOM)
+          this.isLoading = true;
+
+          // Wait for loading render to complete
+          await this.updateComplete;
+        }
+      }
 
       // Get event data (from cache or API) using modularized function
-      const eventData = await EventUtils.fetchEventData(
+      const { events, failedEntities, timestamp } = await EventUtils.fetchEventData(
         this.safeHass,
-        this.config,
-        this._instanceId,
+        this.viewConfig,
         force,
+        entityIds,
+        this._requesterId,
       );
 
+      if (navigationOffset !== this.navigationOffset) {
+        Logger.debug('Discarding events of a window that is no longer shown');
+        return;
+      }
+
       // Critical: Complete loading state before updating events
       this.isLoading = false;
       await this.updateComplete;
+      this.failedEntities = failedEntities;
+
+      // If no calendar could be fetched, the last known events stay visible
+      const entityCount = new Set(
+        this.config.entities.map((entity) => (typeof entity === 'string' ? entity : entity.entity)),
+      ).size;
+      if (failedEntities.length && failedEntities.length >= entityCount) {
+        this.loadFailed = this.dataTimestamp === null;
+        return;
+      }
 
       // Finally set events data
-      this.events = [...eventData];
+      this.events = [...events];
+      this.dataTimestamp = timestamp;
+      this.loadFailed = false;
       this._lastUpdateTime = Date.now();
 
       Logger.info('Event update completed successfully');
+
+      // Preload the adjacent windows so navigating is instant
+      if (this.config.show_navigation && !entityIds) {
+        EventUtils.preloadAdjacentEventData(
+          this.safeHass,
+          this.displayConfig,
+          navigationOffset,
+          this._requesterId,
+        );
+      }
     } catch (error) {
       Logger.error('Failed to update events:', error);
       this.isLoading = false;
+      this.loadFailed = this.dataTimestamp === null;
+    }
+  }
+
+  /**
+   * Move the shown window by a number of periods (days_to_show days, a week, a day or a month)
+   *
+   * @param step - Number of periods to move, negative to move into the past
+   */
+  navigate(step: number): void {
+    this.navigationOffset += step;
+    this._clearShownEvents();
+    this.updateEvents();
+  }
+
+  /**
+   * Return to the configured window
+   */
+  navigateToToday(): void {
+    if (!this.navigationOffset) return;
+
+    this.navigationOffset = 0;
+    this._clearShownEvents();
+    this.updateEvents();
+  }
+
+  /**
+   * Open the details dialog for an event
+   * Split multi-day events are shown, edited and deleted as a whole
+   */
+  openEventDetails(event: Types.CalendarEventData): void {
+    Logger.debug(`Opening details for event: ${event.summary}`);
+    this.selectedEvent = EventUtils.getWholeEvent(event);
+    this.confirmDelete = false;
+    this.recurrenceScope = 'this';
+    this.detailsError = '';
+  }
+
+  /**
+   * Close the event details dialog
+   */
+  closeEventDetails(): void {
+    this.selectedEvent = null;
+  }
+
+  /**
+   * Switch from the details dialog to the form for editing the selected event
+   */
+  editSelectedEvent(): void {
+    if (!this.selectedEvent) return;
+
+    this.eventFormError = '';
+    this.recurrenceScope = 'this';
+    this.eventForm = Mutations.createEventFormDataFromEvent(this.selectedEvent, this.timeZone);
+    this.closeEventDetails();
+  }
+
+  /**
+   * Delete the selected event after confirmation, then refresh the events
+   */
+  async deleteSelectedEvent(): Promise<void> {
+    if (!this.selectedEvent || !this.safeHass || this.isSavingEvent) return;
+
+    this.isSavingEvent = true;
+    this.detailsError = '';
+    try {
+      await Mutations.deleteEvent(this.safeHass, this.selectedEvent, this.recurrenceScope);
+      this.closeEventDetails();
+
+      // Drop the cached events so the deleted event disappears even if the refresh fails
+      await this._invalidateEventCache();
+      await this.updateEvents(true);
+    } catch (error) {
+      Logger.error('Failed to delete event:', error);
+      this.detailsError = Localize.getTranslations(this.effectiveLanguage).errorDeleteFailed;
+    } finally {
+      this.isSavingEvent = false;
+    }
+  }
+
+  /**
+   * Open the add event form
+   *
+   * @param date - Optional day to prefill (defaults to today)
+   */
+  openEventForm(date?: Date): void {
+    const entityIds = Mutations.getEntitiesWithFeature(
+      this.safeHass,
+      this.config,
+      Constants.CALENDAR_FEATURES.CREATE_EVENT,
+    );
+    if (!entityIds.length) return;
+
+    this.eventFormError = '';
+    this.eventForm = Mutations.createEventFormData(entityIds[0], date, this.timeZone);
+  }
+
+  /**
+   * Close the add event form without saving
+   */
+  closeEventForm(): void {
+    this.eventForm = null;
+    this.eventFormError = '';
+  }
+
+  /**
+   * Validate and save the event form (create or update), then refresh the events
+   */
+  async saveEventForm(): Promise<void> {
+    if (!this.eventForm || !this.safeHass || this.isSavingEvent) return;
+
+    const validationError = Mutations.validateEventForm(this.eventForm, this.effectiveLanguage);
+    if (validationError) {
+      this.eventFormError = validationError;
+      return;
+    }
+
+    this.isSavingEvent = true;
+    try {
+      if (this.eventForm.uid) {
+        await Mutations.updateEvent(
+          this.safeHass,
+          this.eventForm,
+          this.recurrenceScope,
+          this.timeZone,
+        );
+      } else {
+        await Mutations.createEvent(this.safeHass, this.eventForm, this.timeZone);
+      }
+      this.closeEventForm();
+
+      // Drop the cached events so the changes show up even if the refresh fails
+      await this._invalidateEventCache();
+      await this.updateEvents(true);
+    } catch (error) {
+      Logger.error('Failed to save event:', error);
+      this.eventFormError = Localize.getTranslations(this.effectiveLanguage).errorSaveFailed;
+    } finally {
+      this.isSavingEvent = false;
+    }
+  }
+
+  /**
+   * Hide the upgrade notice until a different set of deprecated options is used
+   */
+  dismissMigrationNotice(): void {
+    Migration.dismissNotice(this._instanceId, this.migrationNotice);
+    this.migrationNotice = [];
+  }
+
+  /**
+   * Hide or show the events of a calendar and remember the choice for this card
+   *
+   * @param entityId - Calendar tapped in the legend
+   */
+  toggleEntityVisibility(entityId: string): void {
+    this.hiddenEntities = Visibility.toggleEntity(this.hiddenEntities, entityId);
+    Visibility.storeHiddenEntities(this._instanceId, this.hiddenEntities);
+  }
+
+  /**
+   * Complete or reopen a todo item, then refresh the events
+   *
+   * @param event - Event created from the todo item
+   */
+  async toggleTodoItem(event: Types.CalendarEventData): Promise<void> {
+    if (!this.safeHass || !Mutations.canUpdateTodoItem(this.safeHass, event)) return;
+
+    const status: Types.TodoStatus =
+      event._todoStatus === Constants.TODO.STATUS_COMPLETED
+        ? Constants.TODO.STATUS_NEEDS_ACTION
+        : Constants.TODO.STATUS_COMPLETED;
+
+    try {
+      await Mutations.updateTodoItem(this.safeHass, event, status);
+      await this._invalidateEventCache();
+      await this.updateEvents(true);
+    } catch (error) {
+      Logger.error('Failed to update todo item:', error);
     }
   }
 
@@ -439,11 +1144,7 @@ class CalendarCardPro extends LitElement {
    * Toggle expanded state for view modes with limited events
    */
   toggleExpanded(): void {
-    if (
-      this.config.max_events_to_show ||
-      this.config.compact_events_to_show ||
-      this.config.compact_days_to_show
-    ) {
+    if (this.config.compact_events_to_show || this.config.compact_days_to_show) {
       this.isExpanded = !this.isExpanded;
     }
   }
@@ -456,6 +1157,23 @@ class CalendarCardPro extends LitElement {
     Actions.handleAction(actionConfig, this.safeHass, this, entityId, () => this.toggleExpanded());
   }
 
+  /**
+   * Handle a tap or hold on a single event
+   */
+  handleEventAction(event: Types.CalendarEventData, hold: boolean): void {
+    const actionConfig = Actions.getEventActionConfig(event, this.config, hold);
+    Logger.debug(`Executing event ${hold ? 'hold' : 'tap'} action: ${actionConfig.action}`);
+
+    Actions.handleEventAction(
+      actionConfig,
+      event,
+      this.safeHass,
+      this,
+      () => this.toggleExpanded(),
+      () => this.openEventDetails(event),
+    );
+  }
+
   //-----------------------------------------------------------------------------
   // RENDERING
   //-----------------------------------------------------------------------------
@@ -465,6 +1183,7 @@ class CalendarCardPro extends LitElement {
    */
   render() {
     const customStyles = this.getCustomStyles();
+    const viewConfig = this.viewConfig;
 
     // Create event handlers object for the card
     const handlers = {
@@ -475,27 +1194,185 @@ class CalendarCardPro extends LitElement {
       pointerLeave: () => this._handlePointerCancel(),
     };
 
+    // Events only become tappable when the details dialog or an event action is configured
+    const onEventTap = Actions.hasEventActions(this.config)
+      ? (event: Types.CalendarEventData, hold: boolean) => this.handleEventAction(event, hold)
+      : undefined;
+
+    // Todo items get a checkbox in every view if their list can update them
+    const todoActions: Types.TodoActions = {
+      canToggle: (event) => Mutations.canUpdateTodoItem(this.safeHass, event),
+      toggle: (event) => this.toggleTodoItem(event),
+    };
+
+    // Invalid configurations show the error report instead of the calendar
+    const validation = this.configValidation;
+
     // Determine card content based on state
     let content: TemplateResult;
 
-    if (this.isLoading) {
+    if (validation.errors.length) {
+      // Configuration error state - list what needs to be fixed
+      content = Render.renderConfigErrors(validation, this.effectiveLanguage);
+    } else if (this.isLoading) {
       // Loading state
       content = Render.renderCardContent('loading', this.effectiveLanguage);
     } else if (!this.safeHass || !this.config.entities.length) {
       // Error state - missing entities
       content = Render.renderCardContent('error', this.effectiveLanguage);
-    } else if (this.events.length === 0) {
-      // Empty state - generate synthetic empty days
-      const emptyDays = EventUtils.generateEmptyStateEvents(this.config, this.effectiveLanguage);
+    } else if (this.loadFailed) {
+      // Error state - no calendar could be fetched and no earlier events exist
+      content = Render.renderCardContent('unavailable', this.effectiveLanguage);
+    } else if (this.config.view === 'month') {
+      // Month grid - renders its own empty cells when there are no events
+      content = MonthView.renderMonthView(
+        this.visibleEvents.length ? this.groupedEvents : [],
+        viewConfig,
+        this.effectiveLanguage,
+        onEventTap,
+        todoActions,
+      );
+    } else if (this.config.view === 'week' || this.config.view === 'day') {
+      // Week/day timeline - renders its own empty columns when there are no events
+      content = TimelineView.renderTimelineView(
+        this.visibleEvents.length ? this.groupedEvents : [],
+        viewConfig,
+        this.effectiveLanguage,
+        onEventTap,
+        todoActions,
+      );
+    } else if (this.visibleEvents.length === 0) {
+      // Empty state (or all calendars hidden) - generate synthetic empty days
+      const emptyDays = EventUtils.generateEmptyStateEvents(viewConfig, this.effectiveLanguage);
       // Use renderGroupedEvents to handle week numbers and separators
-      content = Render.renderGroupedEvents(emptyDays, this.config, this.effectiveLanguage);
+      content = Render.renderGroupedEvents(
+        Weather.attachForecast(emptyDays, this.forecast, this.timeZone),
+        viewConfig,
+        this.effectiveLanguage,
+      );
     } else {
       // Normal state with events - use renderGroupedEvents to handle week numbers and separators
-      content = Render.renderGroupedEvents(this.groupedEvents, this.config, this.effectiveLanguage);
+      content = Render.renderGroupedEvents(
+        Weather.attachForecast(this.groupedEvents, this.forecast, this.timeZone),
+        viewConfig,
+        this.effectiveLanguage,
+        onEventTap,
+        !this.isExpanded,
+        todoActions,
+      );
     }
 
+    // Events older than the refresh interval show when they were fetched
+    if (
+      !this.isLoading &&
+      this.dataTimestamp !== null &&
+      Date.now() - this.dataTimestamp >= EventUtils.getCacheDuration(this.config)
+    ) {
+      content = html`${content}${Render.renderLastUpdated(
+        this.dataTimestamp,
+        this.effectiveLanguage,
+      )}`;
+    }
+
+    // Deprecated options keep working but are listed until the YAML is updated
+    if (this.migrationNotice.length) {
+      content = html`${Render.renderMigrationNotice(
+        this.migrationNotice,
+        this.effectiveLanguage,
+        () => this.dismissMigrationNotice(),
+      )}${content}`;
+    }
+
+    // Add event button for calendars that support creating events
+    const addEventButton =
+      this.config.show_add_event &&
+      Mutations.getEntitiesWithFeature(
+        this.safeHass,
+        this.config,
+        Constants.CALENDAR_FEATURES.CREATE_EVENT,
+      ).length > 0
+        ? Render.renderHeaderButton(
+            'mdi:plus',
+            Localize.getTranslations(this.effectiveLanguage).addEvent,
+            () => this.openEventForm(),
+          )
+        : nothing;
+
+    // Calendars that could not be fetched are listed while the others are still shown
+    const unavailableBadge = this.failedEntities.length
+      ? Render.renderUnavailableBadge(this.failedEntities, this.safeHass, this.effectiveLanguage)
+      : nothing;
+
+    // Header items float right, so the add event button is rendered first to end up last
+    const headerActions =
+      this.config.show_navigation || addEventButton !== nothing || unavailableBadge !== nothing
+        ? html`${addEventButton}${this.config.show_navigation
+            ? Render.renderHeaderNavigation(this.effectiveLanguage, {
+                previous: () => this.navigate(-1),
+                today: () => this.navigateToToday(),
+                next: () => this.navigate(1),
+              })
+            : nothing}${unavailableBadge}`
+        : nothing;
+
+    // Calendar legend with visibility toggles
+    const legend = this.config.show_legend
+      ? Render.renderLegend(
+          this.config,
+          this.safeHass,
+          this.hiddenEntities,
+          this.effectiveLanguage,
+          (entityId) => this.toggleEntityVisibility(entityId),
+        )
+      : nothing;
+
     // Render main card structure with content
-    return Render.renderMainCardStructure(customStyles, this.config.title, content, handlers);
+    // Dialogs are rendered outside the card so they don't trigger card actions
+    return html`
+      ${Render.renderMainCardStructure(
+        customStyles,
+        this.config.title,
+        content,
+        handlers,
+        false,
+        headerActions,
+        this.config.show_navigation,
+        legend,
+      )}
+      ${this.eventForm
+        ? EventForm.renderEventForm(
+            this.eventForm,
+            Mutations.getEntitiesWithFeature(
+              this.safeHass,
+              this.config,
+              Constants.CALENDAR_FEATURES.CREATE_EVENT,
+            ),
+            this.safeHass,
+            this.effectiveLanguage,
+            { error: this.eventFormError, saving: this.isSavingEvent, scope: this.recurrenceScope },
+            {
+              change: (values) => {
+                this.eventForm = { ...this.eventForm!, ...values };
+              },
+              scopeChange: (scope) => {
+                this.recurrenceScope = scope;
+              },
+              submit: () => this.saveEventForm(),
+              cancel: () => this.closeEventForm(),
+            },
+          )
+        : nothing}
+      ${this.selectedEvent
+        ? Details.renderEventDetails(
+            this.selectedEvent,
+            this.displayConfig,
+            this.safeHass,
+            this.effectiveLanguage,
+            () => this.closeEventDetails(),
+            this._getEventDetailsActions(this.selectedEvent),
+          )
+        : nothing}
+    `;
   }
 }
 
@@ -506,15 +1383,19 @@ class CalendarCardPro extends LitElement {
 // Register the editor - main component registered by decorator
 customElements.define('calendar-card-pro-dev-editor', Editor.CalendarCardProEditor);
 
-// Create interface extending CustomElementConstructor to allow getStubConfig property
+// Create interface extending CustomElementConstructor to allow getStubConfig and getConfigElement properties
 interface CalendarCardConstructor extends CustomElementConstructor {
   getStubConfig?: typeof Config.getStubConfig;
+  getConfigElement?: () => HTMLElement;
 }
 
 // Expose getStubConfig for Home Assistant card picker preview
+// and getConfigElement for the visual editor
 const element = customElements.get('calendar-card-pro-dev');
 if (element) {
   (element as CalendarCardConstructor).getStubConfig = Config.getStubConfig;
+  (element as CalendarCardConstructor).getConfigElement = () =>
+    document.createElement('calendar-card-pro-dev-editor');
 }
 
 // Register with HACS
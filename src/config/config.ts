@@ -22,19 +22,29 @@ export const DEFAULT_CONFIG: Types.Config = {
   compact_days_to_show: undefined,
   compact_events_to_show: undefined,
   compact_events_complete_days: false,
+  compact_icon_only: false,
   show_empty_days: false,
   filter_duplicates: false,
   split_multiday_events: false,
   language: undefined,
+  time_zone: undefined,
+  secondary_time_zone: undefined,
   no_events_text: undefined,
 
-  /** @deprecated Use compact_events_to_show instead. Will be removed in v3.0 */
-  max_events_to_show: undefined,
+  // View mode
+  view: 'agenda',
+  month_events_per_day: 3,
+  timeline_start_hour: 0,
+  timeline_end_hour: 24,
+  timeline_hour_height: '48px',
+  show_navigation: false,
 
   // Header
   title: undefined,
   title_font_size: undefined,
   title_color: undefined,
+  show_legend: false,
+  hidden_entities: [],
 
   // Layout and spacing
   background_color: 'var(--ha-card-background)',
@@ -46,11 +56,6 @@ export const DEFAULT_CONFIG: Types.Config = {
   vertical_line_width: '2px',
   vertical_line_color: '#888888',
 
-  /** @deprecated Use day_separator_width instead. Will be removed in v3.0 */
-  horizontal_line_width: '0px',
-  /** @deprecated Use day_separator_color instead. Will be removed in v3.0 */
-  horizontal_line_color: 'var(--secondary-text-color)',
-
   // Week numbers and horizontal separators
   first_day_of_week: 'system',
   show_week_numbers: null,
@@ -86,10 +91,12 @@ export const DEFAULT_CONFIG: Types.Config = {
   today_weekday_color: undefined, // Inherit from weekday_color or weekend_weekday_color
   today_day_color: undefined, // Inherit from day_color or weekend_day_color
   today_month_color: undefined, // Inherit from month_color or weekend_month_color,
+  weather_entity: undefined, // No forecast
 
   // Event column
   event_background_opacity: 0,
   show_past_events: false,
+  show_completed_todos: false,
   show_countdown: false,
   show_progress_bar: false,
   progress_bar_color: 'var(--secondary-text-color)',
@@ -111,9 +118,17 @@ export const DEFAULT_CONFIG: Types.Config = {
   location_color: 'var(--secondary-text-color)',
   location_icon_size: '14px',
 
+  // Event rules and icons
+  event_rules: [],
+  event_icons: {},
+
   // Actions
   tap_action: { action: 'none' },
   hold_action: { action: 'none' },
+  event_tap_action: { action: 'none' },
+  event_hold_action: { action: 'none' },
+  show_event_details: false,
+  show_add_event: false,
 
   // Cache and refresh settings
   refresh_interval: Constants.CACHE.DEFAULT_DATA_REFRESH_MINUTES,
@@ -143,9 +158,13 @@ export function normalizeEntities(
         split_multiday_events?: boolean;
         time_color?: string;
         location_color?: string;
-
-        /** @deprecated Use compact_events_to_show instead. Will be removed in v3.0 */
-        max_events_to_show?: number;
+        event_icon?: string;
+        event_tap_action?: Types.ActionConfig;
+        event_hold_action?: Types.ActionConfig;
+        type?: 'birthdays';
+        birthday_pattern?: string;
+        birthday_template?: string;
+        show_countdown?: boolean;
       }
   >,
 ): Array<Types.EntityConfig> {
@@ -174,9 +193,15 @@ export function normalizeEntities(
           blocklist: item.blocklist,
           allowlist: item.allowlist,
           split_multiday_events: item.split_multiday_events,
-          max_events_to_show: item.max_events_to_show,
           time_color: item.time_color || 'var(--secondary-text-color)',
           location_color: item.location_color || 'var(--secondary-text-color)',
+          event_icon: item.event_icon,
+          event_tap_action: item.event_tap_action,
+          event_hold_action: item.event_hold_action,
+          type: item.type,
+          birthday_pattern: item.birthday_pattern,
+          birthday_template: item.birthday_template,
+          show_countdown: item.show_countdown,
         };
       }
       return null;
@@ -217,7 +242,11 @@ export function hasConfigChanged(
     previous.days_to_show !== current.days_to_show ||
     previous.start_date !== current.start_date ||
     previous.show_past_events !== current.show_past_events ||
-    previous.filter_duplicates !== current.filter_duplicates;
+    previous.show_completed_todos !== current.show_completed_todos ||
+    previous.filter_duplicates !== current.filter_duplicates ||
+    JSON.stringify(previous.event_rules || []) !== JSON.stringify(current.event_rules || []) ||
+    previous.view !== current.view ||
+    previous.time_zone !== current.time_zone;
 
   if (dataChanged || refreshIntervalChanged) {
     Logger.debug('Configuration change requires data refresh');
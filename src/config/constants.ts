@@ -37,8 +37,73 @@ export const CACHE = {
   /** Interval (milliseconds) between cache cleanup operations */
   CACHE_CLEANUP_INTERVAL_MS: 3600000, // 1 hour
 
-  /** Prefix for calendar event cache keys in localStorage */
+  /** Prefix of the per-configuration cache keys of earlier versions, removed on startup */
   EVENT_CACHE_KEY_PREFIX: 'cache_data_',
+
+  /** Name of the IndexedDB database of the event store */
+  EVENT_STORE_DB_NAME: 'calendar-card-pro',
+
+  /** Name of the object store holding the stored event ranges */
+  EVENT_STORE_NAME: 'events',
+
+  /** Prefix for event store keys when falling back to localStorage */
+  EVENT_STORE_KEY_PREFIX: 'calendar_card_pro_events_',
+
+  /** Maximum number of stored event ranges before the least recently used are evicted */
+  MAX_STORED_RANGES: 100,
+
+  /** Minimum time (milliseconds) between updates of a stored range's last access */
+  LAST_ACCESS_UPDATE_INTERVAL_MS: 60000, // 1 minute
+};
+
+/**
+ * Calendar API request constants
+ */
+export const FETCH = {
+  /** Maximum number of calendars requested at the same time */
+  MAX_CONCURRENT_REQUESTS: 4,
+
+  /** Number of retries after a failed request */
+  MAX_RETRIES: 2,
+
+  /** Delay in milliseconds before the first retry, doubled for every further retry */
+  RETRY_BASE_DELAY_MS: 500,
+
+  /** Time in milliseconds after which a request counts as failed */
+  REQUEST_TIMEOUT_MS: 10000, // 10 seconds
+};
+
+/**
+ * Constants for sharing fetched events between card instances and tabs
+ */
+export const SHARING = {
+  /** BroadcastChannel name used to coordinate requests across browser tabs */
+  CHANNEL_NAME: 'calendar-card-pro',
+
+  /** Maximum time in milliseconds to wait for a request running in another tab */
+  REMOTE_REQUEST_TIMEOUT_MS: 15000, // 15 seconds
+
+  /** Delay in milliseconds after the period start before aligned refreshes run */
+  REFRESH_ALIGNMENT_DELAY_MS: 1000, // 1 second
+
+  /** Debounce time in milliseconds before a card applies events fetched elsewhere */
+  SHARED_UPDATE_DEBOUNCE_MS: 500,
+};
+
+/**
+ * Configuration migration constants
+ */
+export const MIGRATION = {
+  /** Prefix for localStorage keys remembering dismissed upgrade notices */
+  NOTICE_DISMISSED_KEY_PREFIX: 'calendar_card_pro_migration_',
+};
+
+/**
+ * Calendar legend constants
+ */
+export const LEGEND = {
+  /** Prefix for localStorage keys remembering the calendars hidden on a card */
+  HIDDEN_ENTITIES_KEY_PREFIX: 'calendar_card_pro_hidden_',
 };
 
 /**
@@ -74,6 +139,98 @@ export const TIMING = {
 
   /** Threshold in milliseconds for refreshing data when returning to a tab */
   VISIBILITY_REFRESH_THRESHOLD: 300000, // 5 minutes
+
+  /** Delay in milliseconds to batch live calendar updates before refetching */
+  LIVE_UPDATE_DEBOUNCE: 2000, // 2 seconds
+
+  /** Interval in milliseconds of the clock updating countdowns, progress bars and the current time line */
+  CLOCK_TICK_INTERVAL: 60000, // 1 minute
+
+  /** Longest delay in milliseconds between clock ticks, keeps far-off transitions within timer limits */
+  CLOCK_MAX_DELAY: 86400000, // 24 hours
+
+  /** Delay in milliseconds after local midnight before the card moves to the new day */
+  MIDNIGHT_ROLLOVER_DELAY: 1000, // 1 second
+};
+
+/**
+ * Calendar entity feature flags (CalendarEntityFeature in Home Assistant)
+ */
+export const CALENDAR_FEATURES = {
+  /** Entity supports calendar.create_event */
+  CREATE_EVENT: 1,
+
+  /** Entity supports deleting events */
+  DELETE_EVENT: 2,
+
+  /** Entity supports updating events */
+  UPDATE_EVENT: 4,
+};
+
+/**
+ * Todo list entity constants
+ */
+export const TODO = {
+  /** Entity ID prefix of todo lists, fetched as items instead of calendar events */
+  ENTITY_PREFIX: 'todo.',
+
+  /** Status of a completed todo item */
+  STATUS_COMPLETED: 'completed' as const,
+
+  /** Status of an open todo item */
+  STATUS_NEEDS_ACTION: 'needs_action' as const,
+
+  /** supported_features flag of todo lists whose items can be updated (todo.update_item) */
+  UPDATE_ITEM_FEATURE: 4,
+};
+
+/**
+ * Weather forecast constants
+ */
+export const WEATHER = {
+  /** Icons of the weather conditions reported by Home Assistant */
+  CONDITION_ICONS: {
+    'clear-night': 'mdi:weather-night',
+    cloudy: 'mdi:weather-cloudy',
+    exceptional: 'mdi:alert-circle-outline',
+    fog: 'mdi:weather-fog',
+    hail: 'mdi:weather-hail',
+    lightning: 'mdi:weather-lightning',
+    'lightning-rainy': 'mdi:weather-lightning-rainy',
+    partlycloudy: 'mdi:weather-partly-cloudy',
+    pouring: 'mdi:weather-pouring',
+    rainy: 'mdi:weather-rainy',
+    snowy: 'mdi:weather-snowy',
+    'snowy-rainy': 'mdi:weather-snowy-rainy',
+    sunny: 'mdi:weather-sunny',
+    windy: 'mdi:weather-windy',
+    'windy-variant': 'mdi:weather-windy-variant',
+  } as Record<string, string>,
+
+  /** Icon for unknown conditions */
+  DEFAULT_ICON: 'mdi:weather-cloudy-alert',
+};
+
+/**
+ * Birthday calendar constants
+ */
+export const BIRTHDAYS = {
+  /** Default pattern of the birth year in event summaries, e.g. "John (1985)" */
+  DEFAULT_PATTERN: '\\((\\d{4})\\)',
+
+  /** Pattern of a birth year in event descriptions */
+  DESCRIPTION_YEAR_PATTERN: '\\b(?:18|19|20)\\d{2}\\b',
+
+  /** Icon of birthday events without an icon from rules or event_icons */
+  ICON: 'mdi:cake-variant',
+};
+
+/**
+ * Event rule constants
+ */
+export const EVENT_RULES = {
+  /** Weekday names used by the weekdays condition, indexed like Date.getDay() */
+  WEEKDAYS: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
 };
 
 /**
@@ -91,6 +248,12 @@ export const UI = {
   /** Opacity for hold indicators */
   HOLD_INDICATOR_OPACITY: 0.2,
 
+  /** Minimum horizontal distance in pixels for a touch swipe to navigate */
+  SWIPE_THRESHOLD: 50,
+
+  /** Minimum length in minutes of timed events in the week and day views */
+  TIMELINE_MIN_EVENT_MINUTES: 30,
+
   /** Hold indicator sizes */
   HOLD_INDICATOR: {
     /** Size for touch devices */
@@ -0,0 +1,180 @@
+/* eslint-disable import/order */
+/**
+ * Configuration migration for Calendar Card Pro
+ *
+ * Rewrites deprecated options into their replacements before the
+ * configuration is validated and merged with the defaults, and records
+ * which migrations ran so the card and the editor can tell the user
+ * what to change in their YAML before the old options are removed in v3.0.
+ */
+
+import * as Constants from './constants';
+import * as Types from './types';
+import * as Logger from '../utils/logger';
+
+//-----------------------------------------------------------------------------
+// MIGRATIONS
+//-----------------------------------------------------------------------------
+
+/**
+ * All configuration migrations in the order they are applied
+ * The version is the configuration version that introduced the replacement
+ */
+const CONFIG_MIGRATIONS: Types.ConfigMigration[] = [
+  {
+    id: 'max_events_to_show',
+    version: 2,
+    from: 'max_events_to_show',
+    to: 'compact_events_to_show',
+    migrate: (config) => {
+      const migrated = renameOption(config, 'max_events_to_show', 'compact_events_to_show');
+      const entitiesMigrated = renameEntityOption(
+        config,
+        'max_events_to_show',
+        'compact_events_to_show',
+      );
+      return migrated || entitiesMigrated;
+    },
+  },
+  {
+    id: 'horizontal_line_width',
+    version: 2,
+    from: 'horizontal_line_width',
+    to: 'day_separator_width',
+    migrate: (config) => renameOption(config, 'horizontal_line_width', 'day_separator_width'),
+  },
+  {
+    id: 'horizontal_line_color',
+    version: 2,
+    from: 'horizontal_line_color',
+    to: 'day_separator_color',
+    migrate: (config) => renameOption(config, 'horizontal_line_color', 'day_separator_color'),
+  },
+];
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Rewrite all deprecated options of a configuration into their replacements
+ * The original configuration is left untouched
+ *
+ * @param config - Configuration as written by the user
+ * @returns Migrated configuration and the migrations that were applied
+ */
+export function migrateConfig(config: Record<string, unknown>): Types.ConfigMigrationResult {
+  const migrated: Record<string, unknown> = {
+    ...config,
+    ...(Array.isArray(config.entities)
+      ? {
+          entities: config.entities.map((entity) =>
+            isPlainObject(entity) ? { ...entity } : entity,
+          ),
+        }
+      : {}),
+  };
+
+  const applied = [...CONFIG_MIGRATIONS]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.migrate(migrated))
+    .map(({ id, version, from, to }) => ({ id, version, from, to }));
+
+  return { config: migrated, applied };
+}
+
+/**
+ * Check whether the upgrade notice for a set of migrations was dismissed
+ *
+ * @param instanceId - Card instance ID
+ * @param applied - Migrations shown in the notice
+ * @returns True if the user dismissed the notice for exactly these migrations
+ */
+export function isNoticeDismissed(instanceId: string, applied: Types.AppliedMigration[]): boolean {
+  try {
+    return (
+      localStorage.getItem(`${Constants.MIGRATION.NOTICE_DISMISSED_KEY_PREFIX}${instanceId}`) ===
+      getMigrationSignature(applied)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remember that the upgrade notice for a set of migrations was dismissed
+ * The notice returns as soon as a different set of migrations applies
+ *
+ * @param instanceId - Card instance ID
+ * @param applied - Migrations shown in the notice
+ */
+export function dismissNotice(instanceId: string, applied: Types.AppliedMigration[]): void {
+  try {
+    localStorage.setItem(
+      `${Constants.MIGRATION.NOTICE_DISMISSED_KEY_PREFIX}${instanceId}`,
+      getMigrationSignature(applied),
+    );
+  } catch (e) {
+    Logger.warn('Failed to store dismissed upgrade notice:', e);
+  }
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Move a deprecated option to its replacement
+ * An explicitly set replacement wins, the deprecated option is always removed
+ *
+ * @param target - Configuration object to change in place
+ * @param from - Deprecated option
+ * @param to - Replacement option
+ * @returns True if the deprecated option was present
+ */
+function renameOption(target: Record<string, unknown>, from: string, to: string): boolean {
+  if (!(from in target)) return false;
+
+  if (target[to] === undefined) {
+    target[to] = target[from];
+  }
+  delete target[from];
+  return true;
+}
+
+/**
+ * Move a deprecated option to its replacement in all entity objects
+ *
+ * @param config - Configuration to change in place
+ * @param from - Deprecated option
+ * @param to - Replacement option
+ * @returns True if any entity used the deprecated option
+ */
+function renameEntityOption(config: Record<string, unknown>, from: string, to: string): boolean {
+  if (!Array.isArray(config.entities)) return false;
+
+  return config.entities
+    .filter(isPlainObject)
+    .map((entity) => renameOption(entity, from, to))
+    .some(Boolean);
+}
+
+/**
+ * Build a stable identifier for a set of applied migrations
+ *
+ * @param applied - Applied migrations
+ * @returns Comma-separated migration IDs
+ */
+function getMigrationSignature(applied: Types.AppliedMigration[]): string {
+  return applied.map((migration) => migration.id).join(',');
+}
+
+/**
+ * Check whether a value is a plain object
+ *
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -19,19 +19,29 @@ export interface Config {
   compact_days_to_show?: number;
   compact_events_to_show?: number;
   compact_events_complete_days?: boolean;
+  compact_icon_only: boolean;
   show_empty_days: boolean;
   filter_duplicates: boolean;
   split_multiday_events: boolean;
   language?: string;
+  time_zone?: string;
+  secondary_time_zone?: string;
   no_events_text?: string;
 
-  /** @deprecated Use compact_events_to_show instead. Will be removed in v3.0 */
-  max_events_to_show?: number;
+  // View mode
+  view: 'agenda' | 'month' | 'week' | 'day';
+  month_events_per_day: number;
+  timeline_start_hour: number;
+  timeline_end_hour: number;
+  timeline_hour_height: string;
+  show_navigation: boolean;
 
   // Header
   title?: string;
   title_font_size?: string;
   title_color?: string;
+  show_legend: boolean;
+  hidden_entities: string[];
 
   // Layout and spacing
   background_color: string;
@@ -43,11 +53,6 @@ export interface Config {
   vertical_line_width: string;
   vertical_line_color: string;
 
-  /** @deprecated Use day_separator_width instead. Will be removed in v3.0 */
-  horizontal_line_width: string;
-  /** @deprecated Use day_separator_color instead. Will be removed in v3.0 */
-  horizontal_line_color: string;
-
   // Week numbers and horizontal separators
   first_day_of_week: 'sunday' | 'monday' | 'system';
   show_week_numbers: null | 'iso' | 'simple';
@@ -83,10 +88,12 @@ export interface Config {
   today_weekday_color?: string;
   today_day_color?: string;
   today_month_color?: string;
+  weather_entity?: string;
 
   // Event column
   event_background_opacity: number;
   show_past_events: boolean;
+  show_completed_todos: boolean;
   show_countdown: boolean;
   show_progress_bar: boolean;
   progress_bar_color: string;
@@ -108,9 +115,17 @@ export interface Config {
   location_color: string;
   location_icon_size: string;
 
+  // Event rules and icons
+  event_rules: EventRule[];
+  event_icons: Record<string, string>;
+
   // Actions
   tap_action: ActionConfig;
   hold_action: ActionConfig;
+  event_tap_action: ActionConfig;
+  event_hold_action: ActionConfig;
+  show_event_details: boolean;
+  show_add_event: boolean;
 
   // Cache and refresh settings
   refresh_interval: number;
@@ -133,11 +148,55 @@ export interface EntityConfig {
   split_multiday_events?: boolean;
   time_color?: string;
   location_color?: string;
+  event_icon?: string;
+  event_tap_action?: ActionConfig;
+  event_hold_action?: ActionConfig;
+  type?: 'birthdays';
+  birthday_pattern?: string;
+  birthday_template?: string;
+  show_countdown?: boolean;
+}
 
-  /** @deprecated Use compact_events_to_show instead. Will be removed in v3.0 */
-  max_events_to_show?: number;
+/**
+ * Rule styling the events matching all of its conditions
+ */
+export interface EventRule {
+  // Conditions
+  summary?: string;
+  description?: string;
+  location?: string;
+  entity?: string | string[];
+  all_day?: boolean;
+  min_duration?: number;
+  max_duration?: number;
+  weekdays?: string | string[];
+
+  // Overrides
+  color?: string;
+  accent_color?: string;
+  background_opacity?: number;
+  icon?: string;
+  bold?: boolean;
+  strikethrough?: boolean;
+  hide?: boolean;
+  class?: string;
 }
 
+/**
+ * Merged overrides of the rules matching an event
+ */
+export type EventRuleStyle = Pick<
+  EventRule,
+  | 'color'
+  | 'accent_color'
+  | 'background_opacity'
+  | 'icon'
+  | 'bold'
+  | 'strikethrough'
+  | 'hide'
+  | 'class'
+>;
+
 // -----------------------------------------------------------------------------
 // CALENDAR DATA STRUCTURES
 // -----------------------------------------------------------------------------
@@ -150,13 +209,65 @@ export interface CalendarEventData {
   readonly end: { readonly dateTime?: string; readonly date?: string };
   summary?: string;
   location?: string;
+  description?: string;
+  uid?: string;
+  recurrence_id?: string;
+  rrule?: string;
   _entityId?: string;
   _entityLabel?: string;
   _isEmptyDay?: boolean;
   _matchedConfig?: EntityConfig;
+  _ruleStyle?: EventRuleStyle;
+  _model?: EventModel;
+  _todoStatus?: TodoStatus;
+  _birthday?: BirthdayInfo;
   time?: string;
 }
 
+/**
+ * Birthday of an event from a birthdays calendar
+ * Birth year and age are only set if a birth year was found, the title is
+ * formatted when events are grouped by day
+ */
+export interface BirthdayInfo {
+  name: string;
+  birthYear?: number;
+  age?: number;
+  title?: string;
+}
+
+/**
+ * Status of a todo list item
+ */
+export type TodoStatus = 'needs_action' | 'completed';
+
+/**
+ * Todo list item as returned by the todo/item/list websocket command
+ * The due value is a date (YYYY-MM-DD) or an ISO datetime
+ */
+export interface TodoItem {
+  uid: string;
+  summary: string;
+  status: TodoStatus;
+  due?: string;
+  description?: string;
+}
+
+/**
+ * Normalized time model of an event, created once while processing events
+ * Start and end are wall clock dates of the display time zone; all-day events
+ * start at local midnight and end at the (exclusive) midnight after their last day
+ */
+export interface EventModel {
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+  isMultiDay: boolean;
+  segment?: { index: number; total: number };
+  original: CalendarEventData;
+  timeZone?: string;
+}
+
 /**
  * Grouped events by day
  */
@@ -170,6 +281,7 @@ export interface EventsByDay {
   isFirstDayOfWeek?: boolean;
   isFirstDayOfMonth?: boolean;
   monthNumber?: number;
+  forecast?: WeatherForecast;
 }
 
 /**
@@ -180,6 +292,62 @@ export interface CacheEntry {
   timestamp: number;
 }
 
+/**
+ * Events of one calendar stored for a fetched date range
+ * Start and end are the range boundaries in milliseconds, purgeAt is the time
+ * after which the range is removed by the periodic purge once it was refetched
+ */
+export interface StoredEventRange {
+  key: string;
+  entity: string;
+  start: number;
+  end: number;
+  events: CalendarEventData[];
+  timestamp: number;
+  lastAccess: number;
+  purgeAt: number;
+  version: string;
+}
+
+/**
+ * Storage used by the event store (IndexedDB, localStorage or memory)
+ */
+export interface EventStoreBackend {
+  getEntityRanges: (entityId: string) => Promise<StoredEventRange[]>;
+  getAllRanges: () => Promise<StoredEventRange[]>;
+  put: (range: StoredEventRange) => Promise<void>;
+  delete: (keys: string[]) => Promise<void>;
+}
+
+/**
+ * Message exchanged between browser tabs to share calendar requests
+ * The key identifies the calendar and time window of the request
+ */
+export type SharingMessage =
+  | { type: 'fetching'; key: string }
+  | { type: 'fetched'; key: string; entityId: string; timestamp: number }
+  | { type: 'failed'; key: string };
+
+/**
+ * Events fetched from the API together with the calendars that could not be fetched
+ * The timestamp is the fetch time of the oldest calendar data that was used
+ */
+export interface FetchResult {
+  events: ReadonlyArray<CalendarEventData>;
+  failedEntities: string[];
+  timestamp: number;
+}
+
+/**
+ * Processed event data of the card together with the calendars that could not be fetched
+ * The timestamp is the time the events were fetched from the API
+ */
+export interface EventDataResult {
+  events: CalendarEventData[];
+  failedEntities: string[];
+  timestamp: number;
+}
+
 // -----------------------------------------------------------------------------
 // USER INTERACTION
 // -----------------------------------------------------------------------------
@@ -215,6 +383,61 @@ export interface InteractionConfig {
   context: ActionContext;
 }
 
+/**
+ * Values of the add/edit event form
+ * Dates use YYYY-MM-DD and times HH:MM as provided by native date/time inputs
+ * uid, recurrence_id and rrule are only set when editing an existing event
+ */
+export interface EventFormData {
+  entity: string;
+  summary: string;
+  all_day: boolean;
+  start_date: string;
+  start_time: string;
+  end_date: string;
+  end_time: string;
+  location: string;
+  description: string;
+  uid?: string;
+  recurrence_id?: string;
+  rrule?: string;
+}
+
+/**
+ * Which occurrences of a recurring event an edit or delete applies to
+ */
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+/**
+ * State and callbacks for the edit and delete actions of the event details dialog
+ */
+export interface EventDetailsActions {
+  canEdit: boolean;
+  canDelete: boolean;
+  confirmDelete: boolean;
+  scope: RecurrenceScope;
+  error: string;
+  busy: boolean;
+  edit: () => void;
+  requestDelete: () => void;
+  confirm: () => void;
+  cancelDelete: () => void;
+  scopeChange: (scope: RecurrenceScope) => void;
+}
+
+/**
+ * Callback invoked when a single event is tapped or held
+ */
+export type EventTapHandler = (event: CalendarEventData, hold: boolean) => void;
+
+/**
+ * Checkbox state and callback of todo items
+ */
+export interface TodoActions {
+  canToggle: (event: CalendarEventData) => boolean;
+  toggle: (event: CalendarEventData) => void;
+}
+
 // -----------------------------------------------------------------------------
 // HOME ASSISTANT INTEGRATION
 // -----------------------------------------------------------------------------
@@ -223,17 +446,46 @@ export interface InteractionConfig {
  * Home Assistant interface
  */
 export interface Hass {
-  states: Record<string, { state: string }>;
+  states: Record<
+    string,
+    { state: string; attributes?: Record<string, unknown>; last_changed?: string }
+  >;
   callApi: (method: string, path: string, parameters?: object) => Promise<unknown>;
-  callService: (domain: string, service: string, serviceData?: object) => void;
+  callWS: <T = unknown>(message: object) => Promise<T>;
+  callService: (domain: string, service: string, serviceData?: object) => Promise<unknown> | void;
   locale?: {
     language: string;
   };
+  config?: {
+    time_zone?: string;
+  };
   connection?: {
-    subscribeEvents: (callback: (event: unknown) => void, eventType: string) => Promise<() => void>;
+    subscribeMessage: <T = unknown>(
+      callback: (message: T) => void,
+      message: object,
+    ) => Promise<() => void>;
   };
 }
 
+/**
+ * Entry of a weather forecast as delivered by weather/subscribe_forecast
+ * The high temperature is reported as temperature, the low one as templow
+ */
+export interface WeatherForecast {
+  datetime: string;
+  condition?: string;
+  temperature?: number;
+  templow?: number;
+}
+
+/**
+ * Forecast update message of the weather/subscribe_forecast subscription
+ */
+export interface ForecastEvent {
+  type: 'daily' | 'hourly' | 'twice_daily';
+  forecast: WeatherForecast[] | null;
+}
+
 /**
  * Custom card registration interface for Home Assistant
  */
@@ -273,4 +525,225 @@ export interface Translations {
   fullDaysOfWeek: string[];
   endsToday: string;
   endsTomorrow: string;
+  moreEvents: string;
+  recurringEvent: string;
+  repeatsDaily: string;
+  repeatsWeekly: string;
+  repeatsMonthly: string;
+  repeatsYearly: string;
+  close: string;
+  addEvent: string;
+  eventTitle: string;
+  start: string;
+  end: string;
+  location: string;
+  description: string;
+  calendar: string;
+  save: string;
+  cancel: string;
+  errorSummaryRequired: string;
+  errorEndBeforeStart: string;
+  errorSaveFailed: string;
+  edit: string;
+  delete: string;
+  editEvent: string;
+  confirmDelete: string;
+  scopeThisEvent: string;
+  scopeFollowingEvents: string;
+  scopeAllEvents: string;
+  errorDeleteFailed: string;
+  previous: string;
+  next: string;
+  today: string;
+  configError: string;
+  didYouMean: string;
+  deprecatedOptions: string;
+  applyMigration: string;
+  dismiss: string;
+  calendarUnavailable: string;
+  calendarsUnavailable: string;
+  errorLoadFailed: string;
+  updatedMinutesAgo: string;
+  updatedHoursAgo: string;
+  countdownTomorrow: string;
+  countdownDays: string;
+  showCalendar: string;
+  hideCalendar: string;
+  completeTodo: string;
+  reopenTodo: string;
+  birthdayTemplate: string;
+  editor: EditorTranslations;
+}
+
+/**
+ * Translations of the visual editor
+ * Section titles, option labels and placeholders are keyed by section ID,
+ * option name and select option label
+ */
+export interface EditorTranslations {
+  sections: Record<string, string>;
+  fields: Record<string, string>;
+  options: Record<string, string>;
+  placeholders: Record<string, string>;
+  addCalendar: string;
+  dragToReorder: string;
+  calendarOptions: string;
+  removeCalendar: string;
+  inheritDefault: string;
+  on: string;
+  off: string;
+  entityNotFound: string;
+  errorNoCalendars: string;
+  errorNumber: string;
+  errorMinimum: string;
+  errorMaximum: string;
+  errorLength: string;
+  errorColor: string;
+  errorRegex: string;
+  errorDate: string;
+  errorEntityRequired: string;
+  errorEntityId: string;
+  errorService: string;
+  errorServiceData: string;
+}
+
+// -----------------------------------------------------------------------------
+// CONFIGURATION VALIDATION
+// -----------------------------------------------------------------------------
+
+/**
+ * Expected value of a configuration option
+ */
+export type ConfigRule =
+  | {
+      type:
+        | 'string'
+        | 'boolean'
+        | 'length'
+        | 'regex'
+        | 'date'
+        | 'time_zone'
+        | 'action'
+        | 'entities'
+        | 'event_rules'
+        | 'event_icons';
+    }
+  | { type: 'string_or_boolean' | 'regex_or_boolean' }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'enum'; values: ReadonlyArray<string | null> }
+  | { type: 'list'; values?: ReadonlyArray<string> };
+
+/**
+ * Kind of problem found in the configuration
+ */
+export type ConfigIssueCode =
+  | 'unknown_key'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'invalid_length'
+  | 'invalid_regex'
+  | 'invalid_time_zone'
+  | 'missing_entities'
+  | 'unknown_entity';
+
+/**
+ * Single problem found in the configuration
+ */
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  code: ConfigIssueCode;
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * Result of validating a configuration
+ */
+export interface ConfigValidationResult {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+// -----------------------------------------------------------------------------
+// CONFIGURATION MIGRATION
+// -----------------------------------------------------------------------------
+
+/**
+ * Rewrite of a deprecated option into its replacement
+ * The migrate function changes the configuration in place and returns
+ * whether the deprecated option was found
+ */
+export interface ConfigMigration {
+  id: string;
+  version: number;
+  from: string;
+  to: string;
+  migrate: (config: Record<string, unknown>) => boolean;
+}
+
+/**
+ * Migration that was applied to a configuration
+ */
+export interface AppliedMigration {
+  id: string;
+  version: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * Result of migrating a configuration
+ */
+export interface ConfigMigrationResult {
+  config: Record<string, unknown>;
+  applied: AppliedMigration[];
+}
+
+// -----------------------------------------------------------------------------
+// CARD EDITOR
+// -----------------------------------------------------------------------------
+
+/**
+ * Input types supported by the visual editor
+ * Lengths, colors, regexes and dates are text inputs with type-specific validation
+ */
+export type EditorFieldType =
+  | 'text'
+  | 'number'
+  | 'boolean'
+  | 'select'
+  | 'length'
+  | 'color'
+  | 'regex'
+  | 'date'
+  | 'action';
+
+/**
+ * Single option of the visual editor
+ */
+export interface EditorField {
+  name: string;
+  type: EditorFieldType;
+  // Labels are keys of the editor's option translations
+  options?: Array<{ value: string; label: string }>;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+}
+
+/**
+ * Calendar override of the visual editor, named after its EntityConfig key
+ */
+export interface EntityEditorField extends EditorField {
+  name: Exclude<keyof EntityConfig, 'entity'>;
+}
+
+/**
+ * Collapsible group of options in the visual editor
+ */
+export interface EditorSection {
+  id: string;
+  icon: string;
+  fields: EditorField[];
 }
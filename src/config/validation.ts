@@ -0,0 +1,668 @@
+/* eslint-disable import/order */
+/**
+ * Configuration validation for Calendar Card Pro
+ *
+ * Checks the user configuration against the expected option types and
+ * collects errors (values the card can't use) and warnings (values that
+ * are ignored or look like mistakes) for the in-card error report.
+ */
+
+import * as Constants from './constants';
+import * as Types from './types';
+
+//-----------------------------------------------------------------------------
+// VALIDATION SCHEMA
+//-----------------------------------------------------------------------------
+
+/**
+ * Keys handled by Home Assistant or other cards rather than by this card
+ * (_description is set by the stub configuration of the card picker)
+ */
+const IGNORED_KEYS = [
+  'type',
+  'card_mod',
+  'view_layout',
+  'layout_options',
+  'grid_options',
+  'visibility',
+  '_description',
+];
+
+/**
+ * Actions understood by the action handler
+ */
+const KNOWN_ACTIONS = [
+  'none',
+  'expand',
+  'toggle',
+  'more-info',
+  'navigate',
+  'url',
+  'call-service',
+  'fire-dom-event',
+  'details',
+];
+
+/**
+ * Expected values of all card options
+ */
+const CONFIG_SCHEMA: Record<keyof Types.Config, Types.ConfigRule> = {
+  // Core settings
+  entities: { type: 'entities' },
+  start_date: { type: 'date' },
+  days_to_show: { type: 'number', min: 1 },
+  compact_days_to_show: { type: 'number', min: 1 },
+  compact_events_to_show: { type: 'number', min: 1 },
+  compact_events_complete_days: { type: 'boolean' },
+  compact_icon_only: { type: 'boolean' },
+  show_empty_days: { type: 'boolean' },
+  filter_duplicates: { type: 'boolean' },
+  split_multiday_events: { type: 'boolean' },
+  language: { type: 'string' },
+  time_zone: { type: 'time_zone' },
+  secondary_time_zone: { type: 'time_zone' },
+  no_events_text: { type: 'string' },
+
+  // View mode
+  view: { type: 'enum', values: ['agenda', 'month', 'week', 'day'] },
+  month_events_per_day: { type: 'number', min: 1 },
+  timeline_start_hour: { type: 'number', min: 0, max: 23 },
+  timeline_end_hour: { type: 'number', min: 1, max: 24 },
+  timeline_hour_height: { type: 'length' },
+  show_navigation: { type: 'boolean' },
+
+  // Header
+  title: { type: 'string' },
+  title_font_size: { type: 'length' },
+  title_color: { type: 'string' },
+  show_legend: { type: 'boolean' },
+  hidden_entities: { type: 'list' },
+
+  // Layout and spacing
+  background_color: { type: 'string' },
+  day_spacing: { type: 'length' },
+  event_spacing: { type: 'length' },
+  additional_card_spacing: { type: 'length' },
+  max_height: { type: 'length' },
+  height: { type: 'length' },
+  vertical_line_width: { type: 'length' },
+  vertical_line_color: { type: 'string' },
+
+  // Week numbers and horizontal separators
+  first_day_of_week: { type: 'enum', values: ['sunday', 'monday', 'system'] },
+  show_week_numbers: { type: 'enum', values: [null, 'iso', 'simple'] },
+  show_current_week_number: { type: 'boolean' },
+  week_number_font_size: { type: 'length' },
+  week_number_color: { type: 'string' },
+  week_number_background_color: { type: 'string' },
+  day_separator_width: { type: 'length' },
+  day_separator_color: { type: 'string' },
+  week_separator_width: { type: 'length' },
+  week_separator_color: { type: 'string' },
+  month_separator_width: { type: 'length' },
+  month_separator_color: { type: 'string' },
+
+  // Today indicator
+  today_indicator: { type: 'string_or_boolean' },
+  today_indicator_position: { type: 'string' },
+  today_indicator_color: { type: 'string' },
+  today_indicator_size: { type: 'length' },
+
+  // Date column
+  date_vertical_alignment: { type: 'enum', values: ['top', 'middle', 'bottom'] },
+  weekday_font_size: { type: 'length' },
+  weekday_color: { type: 'string' },
+  day_font_size: { type: 'length' },
+  day_color: { type: 'string' },
+  show_month: { type: 'boolean' },
+  month_font_size: { type: 'length' },
+  month_color: { type: 'string' },
+  weekend_weekday_color: { type: 'string' },
+  weekend_day_color: { type: 'string' },
+  weekend_month_color: { type: 'string' },
+  today_weekday_color: { type: 'string' },
+  today_day_color: { type: 'string' },
+  today_month_color: { type: 'string' },
+  weather_entity: { type: 'string' },
+
+  // Event column
+  event_background_opacity: { type: 'number', min: 0, max: 100 },
+  show_past_events: { type: 'boolean' },
+  show_completed_todos: { type: 'boolean' },
+  show_countdown: { type: 'boolean' },
+  show_progress_bar: { type: 'boolean' },
+  progress_bar_color: { type: 'string' },
+  progress_bar_height: { type: 'length' },
+  progress_bar_width: { type: 'length' },
+  event_font_size: { type: 'length' },
+  event_color: { type: 'string' },
+  empty_day_color: { type: 'string' },
+  show_time: { type: 'boolean' },
+  show_single_allday_time: { type: 'boolean' },
+  time_24h: { type: 'boolean' },
+  show_end_time: { type: 'boolean' },
+  time_font_size: { type: 'length' },
+  time_color: { type: 'string' },
+  time_icon_size: { type: 'length' },
+  show_location: { type: 'boolean' },
+  remove_location_country: { type: 'regex_or_boolean' },
+  location_font_size: { type: 'length' },
+  location_color: { type: 'string' },
+  location_icon_size: { type: 'length' },
+
+  // Event rules and icons
+  event_rules: { type: 'event_rules' },
+  event_icons: { type: 'event_icons' },
+
+  // Actions
+  tap_action: { type: 'action' },
+  hold_action: { type: 'action' },
+  event_tap_action: { type: 'action' },
+  event_hold_action: { type: 'action' },
+  show_event_details: { type: 'boolean' },
+  show_add_event: { type: 'boolean' },
+
+  // Cache and refresh settings
+  refresh_interval: { type: 'number', min: 1 },
+  refresh_on_navigate: { type: 'boolean' },
+};
+
+/**
+ * Expected values of the per-calendar options
+ */
+const ENTITY_SCHEMA: Record<keyof Types.EntityConfig, Types.ConfigRule> = {
+  entity: { type: 'string' },
+  label: { type: 'string' },
+  color: { type: 'string' },
+  accent_color: { type: 'string' },
+  show_time: { type: 'boolean' },
+  show_location: { type: 'boolean' },
+  compact_events_to_show: { type: 'number', min: 1 },
+  blocklist: { type: 'regex' },
+  allowlist: { type: 'regex' },
+  split_multiday_events: { type: 'boolean' },
+  time_color: { type: 'string' },
+  location_color: { type: 'string' },
+  event_icon: { type: 'string' },
+  event_tap_action: { type: 'action' },
+  event_hold_action: { type: 'action' },
+  type: { type: 'enum', values: ['birthdays'] },
+  birthday_pattern: { type: 'regex' },
+  birthday_template: { type: 'string' },
+  show_countdown: { type: 'boolean' },
+};
+
+/**
+ * Expected values of the event rule conditions and overrides
+ */
+const EVENT_RULE_SCHEMA: Record<keyof Types.EventRule, Types.ConfigRule> = {
+  // Conditions
+  summary: { type: 'regex' },
+  description: { type: 'regex' },
+  location: { type: 'regex' },
+  entity: { type: 'list' },
+  all_day: { type: 'boolean' },
+  min_duration: { type: 'number', min: 0 },
+  max_duration: { type: 'number', min: 0 },
+  weekdays: { type: 'list', values: Constants.EVENT_RULES.WEEKDAYS },
+
+  // Overrides
+  color: { type: 'string' },
+  accent_color: { type: 'string' },
+  background_opacity: { type: 'number', min: 0, max: 100 },
+  icon: { type: 'string' },
+  bold: { type: 'boolean' },
+  strikethrough: { type: 'boolean' },
+  hide: { type: 'boolean' },
+  class: { type: 'string' },
+};
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Validate a user configuration
+ *
+ * @param config - Configuration as written by the user (before merging defaults)
+ * @param hass - Optional Home Assistant instance to check that calendar entities exist
+ * @returns Errors and warnings found in the configuration
+ */
+export function validateConfig(
+  config: Record<string, unknown>,
+  hass?: Types.Hass | null,
+): Types.ConfigValidationResult {
+  const issues: Types.ConfigIssue[] = [];
+
+  validateObject(config, CONFIG_SCHEMA, '', issues, IGNORED_KEYS);
+
+  if (!config.entities || (Array.isArray(config.entities) && config.entities.length === 0)) {
+    issues.push({
+      severity: 'error',
+      code: 'missing_entities',
+      path: 'entities',
+      message: 'At least one calendar entity is required',
+    });
+  } else if (Array.isArray(config.entities)) {
+    config.entities.forEach((entity, index) =>
+      validateEntity(entity, `entities[${index}]`, hass, issues),
+    );
+  }
+
+  // A missing weather entity only hides the forecast
+  const weatherEntity = config.weather_entity;
+  if (hass && typeof weatherEntity === 'string' && weatherEntity && !hass.states[weatherEntity]) {
+    issues.push({
+      severity: 'warning',
+      code: 'unknown_entity',
+      path: 'weather_entity',
+      message: `Entity "${weatherEntity}" does not exist in Home Assistant`,
+      suggestion: findClosestKey(
+        weatherEntity,
+        Object.keys(hass.states).filter((id) => id.startsWith('weather.')),
+      ),
+    });
+  }
+
+  if (Array.isArray(config.event_rules)) {
+    config.event_rules.forEach((rule, index) =>
+      validateEventRule(rule, `event_rules[${index}]`, issues),
+    );
+  }
+
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error'),
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+  };
+}
+
+/**
+ * Check if a value is a valid CSS length
+ * CSS variables and calc() expressions are accepted as-is
+ *
+ * @param value - Value to check
+ * @returns True if the value can be used as a length
+ */
+export function isValidCssLength(value: string): boolean {
+  if (/^(var|calc)\(.+\)$/.test(value) || ['auto', 'none', '0'].includes(value)) {
+    return true;
+  }
+  return /^-?\d*\.?\d+(px|em|rem|%|vh|vw|vmin|vmax|ex|ch|pt|cm|mm|in|pc)$/.test(value);
+}
+
+/**
+ * Check if a string compiles as a regular expression
+ *
+ * @param pattern - Pattern to check
+ * @returns True if the pattern is a valid regular expression
+ */
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a string is a time zone known to the browser
+ *
+ * @param timeZone - IANA time zone to check, e.g. "Europe/Berlin"
+ * @returns True if dates can be formatted in the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Validate the keys and values of a configuration object against a schema
+ *
+ * @param object - Object to validate
+ * @param schema - Expected values by key
+ * @param prefix - Path prefix for reported issues
+ * @param issues - Collected issues
+ * @param ignoredKeys - Keys that are accepted without validation
+ */
+function validateObject(
+  object: Record<string, unknown>,
+  schema: Record<string, Types.ConfigRule>,
+  prefix: string,
+  issues: Types.ConfigIssue[],
+  ignoredKeys: string[] = [],
+): void {
+  const knownKeys = Object.keys(schema);
+
+  Object.entries(object).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (ignoredKeys.includes(key)) return;
+
+    const rule = schema[key];
+    if (!rule) {
+      const suggestion = findClosestKey(key, knownKeys);
+      issues.push({
+        severity: 'warning',
+        code: 'unknown_key',
+        path,
+        message: 'Unknown option, it is ignored',
+        suggestion,
+      });
+      return;
+    }
+
+    // Empty YAML values fall back to the default
+    if (value === null && !(rule.type === 'enum' && rule.values.includes(null))) return;
+
+    const issue = validateValue(value, rule);
+    if (issue) {
+      issues.push({ ...issue, path });
+    }
+  });
+}
+
+/**
+ * Validate a single value against its rule
+ *
+ * @param value - Configured value
+ * @param rule - Expected value
+ * @returns Issue without path, or null if the value is valid
+ */
+function validateValue(
+  value: unknown,
+  rule: Types.ConfigRule,
+): Omit<Types.ConfigIssue, 'path'> | null {
+  const invalidType = (expected: string): Omit<Types.ConfigIssue, 'path'> => ({
+    severity: 'error',
+    code: 'invalid_type',
+    message: `Expected ${expected}, got ${describeValue(value)}`,
+  });
+
+  switch (rule.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || isNaN(number)) {
+        return invalidType('a number');
+      }
+      if (
+        (rule.min !== undefined && number < rule.min) ||
+        (rule.max !== undefined && number > rule.max)
+      ) {
+        return {
+          severity: 'error',
+          code: 'invalid_value',
+          message: `Expected a number ${describeRange(rule.min, rule.max)}, got ${number}`,
+        };
+      }
+      // Numeric strings work but should be written as numbers
+      if (typeof value === 'string') {
+        return { ...invalidType('a number'), severity: 'warning' };
+      }
+      return null;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : invalidType('true or false');
+
+    case 'string':
+    case 'date':
+      return typeof value === 'string' ? null : invalidType('text');
+
+    case 'time_zone':
+      if (typeof value !== 'string') return invalidType('a time zone like Europe/Berlin');
+      return isValidTimeZone(value)
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_time_zone',
+            message: `"${value}" is not a known time zone, expected e.g. Europe/Berlin`,
+          };
+
+    case 'string_or_boolean':
+      return typeof value === 'string' || typeof value === 'boolean'
+        ? null
+        : invalidType('text or true/false');
+
+    case 'length':
+      if (typeof value === 'number' && value === 0) return null;
+      if (typeof value !== 'string') return invalidType('a CSS length like 10px');
+      return isValidCssLength(value.trim())
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_length',
+            message: `"${value}" is not a valid CSS length (e.g. 10px, 1.5em, 50%)`,
+          };
+
+    case 'regex':
+    case 'regex_or_boolean':
+      if (rule.type === 'regex_or_boolean' && typeof value === 'boolean') return null;
+      if (typeof value !== 'string') return invalidType('a regular expression');
+      return isValidRegex(value)
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_regex',
+            message: `"${value}" is not a valid regular expression`,
+          };
+
+    case 'enum':
+      return rule.values.includes(value as string | null)
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_value',
+            message: `Expected one of ${rule.values
+              .map((option) => (option === null ? 'null' : option))
+              .join(', ')}, got ${describeValue(value)}`,
+          };
+
+    case 'action': {
+      const action = (value as Types.ActionConfig | null)?.action;
+      if (!value || typeof value !== 'object' || typeof action !== 'string') {
+        return invalidType('an action object like { action: navigate }');
+      }
+      return KNOWN_ACTIONS.includes(action)
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_value',
+            message: `Unknown action "${action}"`,
+          };
+    }
+
+    case 'entities':
+      return Array.isArray(value) ? null : invalidType('a list of calendar entities');
+
+    case 'event_rules':
+      return Array.isArray(value) ? null : invalidType('a list of event rules');
+
+    case 'event_icons': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return invalidType('a mapping of patterns to icons like { Gym: mdi:dumbbell }');
+      }
+      const entries = Object.entries(value as Record<string, unknown>);
+      const invalidIcon = entries.find(([, icon]) => typeof icon !== 'string');
+      if (invalidIcon) {
+        return invalidType(`an mdi: icon or emoji for "${invalidIcon[0]}"`);
+      }
+      const invalidPattern = entries.find(([pattern]) => !isValidRegex(pattern));
+      return invalidPattern
+        ? {
+            severity: 'error',
+            code: 'invalid_regex',
+            message: `"${invalidPattern[0]}" is not a valid regular expression`,
+          }
+        : null;
+    }
+
+    case 'list': {
+      const items = Array.isArray(value) ? value : [value];
+      if (!items.every((item) => typeof item === 'string')) {
+        return invalidType('text or a list of texts');
+      }
+      const allowed = rule.values;
+      const unknown = allowed
+        ? items.find((item) => !allowed.includes(String(item).toLowerCase()))
+        : undefined;
+      return unknown === undefined
+        ? null
+        : {
+            severity: 'error',
+            code: 'invalid_value',
+            message: `Expected any of ${allowed?.join(', ')}, got ${describeValue(unknown)}`,
+          };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a configured calendar
+ *
+ * @param entity - Entity ID or entity configuration
+ * @param path - Path of the entity in the configuration
+ * @param hass - Optional Home Assistant instance to check that the entity exists
+ * @param issues - Collected issues
+ */
+function validateEntity(
+  entity: unknown,
+  path: string,
+  hass: Types.Hass | null | undefined,
+  issues: Types.ConfigIssue[],
+): void {
+  let entityId: unknown = entity;
+
+  if (entity && typeof entity === 'object' && !Array.isArray(entity)) {
+    entityId = (entity as Record<string, unknown>).entity;
+    validateObject(entity as Record<string, unknown>, ENTITY_SCHEMA, path, issues);
+  }
+
+  if (typeof entityId !== 'string' || !entityId) {
+    issues.push({
+      severity: 'error',
+      code: 'invalid_type',
+      path,
+      message: 'Expected an entity ID or an object with an entity option',
+    });
+    return;
+  }
+
+  // A missing calendar (removed or still loading) is reported as unavailable, the others still show
+  if (hass && !hass.states[entityId]) {
+    issues.push({
+      severity: 'warning',
+      code: 'unknown_entity',
+      path,
+      message: `Entity "${entityId}" does not exist in Home Assistant`,
+      suggestion: findClosestKey(
+        entityId,
+        Object.keys(hass.states).filter((id) => id.startsWith(`${entityId.split('.')[0]}.`)),
+      ),
+    });
+  }
+}
+
+/**
+ * Validate a configured event rule
+ *
+ * @param rule - Event rule object
+ * @param path - Path of the rule in the configuration
+ * @param issues - Collected issues
+ */
+function validateEventRule(rule: unknown, path: string, issues: Types.ConfigIssue[]): void {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    issues.push({
+      severity: 'error',
+      code: 'invalid_type',
+      path,
+      message: 'Expected an object with conditions and overrides',
+    });
+    return;
+  }
+
+  validateObject(rule as Record<string, unknown>, EVENT_RULE_SCHEMA, path, issues);
+}
+
+/**
+ * Find the known key closest to a misspelled one
+ *
+ * @param key - Unknown key
+ * @param candidates - Known keys
+ * @returns Closest known key, or undefined if none is similar enough
+ */
+function findClosestKey(key: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+
+  candidates.forEach((candidate) => {
+    const distance = getEditDistance(key, candidate);
+    if (distance <= maxDistance && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  });
+
+  return closest;
+}
+
+/**
+ * Calculate the Levenshtein distance between two strings
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character edits to turn a into b
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Describe a value for error messages
+ *
+ * @param value - Configured value
+ * @returns Short description of the value
+ */
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return 'a list';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Describe the allowed range of a number
+ *
+ * @param min - Minimum value
+ * @param max - Maximum value
+ * @returns Range description
+ */
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}`;
+  if (min !== undefined) return `of at least ${min}`;
+  return `of at most ${max}`;
+}
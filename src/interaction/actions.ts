@@ -7,6 +7,7 @@
  */
 
 import * as Types from '../config/types';
+import * as EventUtils from '../utils/events';
 import * as Logger from '../utils/logger';
 
 //-----------------------------------------------------------------------------
@@ -105,6 +106,152 @@ export function handleAction(
   }
 }
 
+/**
+ * Check whether single events should react to taps and holds
+ *
+ * @param config - Card configuration
+ * @returns True if event details or any card- or entity-level event action is configured
+ */
+export function hasEventActions(config: Types.Config): boolean {
+  const isActive = (actionConfig?: Types.ActionConfig) =>
+    Boolean(actionConfig && actionConfig.action !== 'none');
+
+  return (
+    config.show_event_details ||
+    isActive(config.event_tap_action) ||
+    isActive(config.event_hold_action) ||
+    config.entities.some(
+      (entity) =>
+        typeof entity !== 'string' &&
+        (isActive(entity.event_tap_action) || isActive(entity.event_hold_action)),
+    )
+  );
+}
+
+/**
+ * Resolve the action for a tap or hold on a single event
+ * Entity-level actions override the card-level ones. Holds without an action
+ * fall back to the tap action, and taps without an action open the event
+ * details when show_event_details is enabled.
+ *
+ * @param event - Tapped or held event
+ * @param config - Card configuration
+ * @param hold - Whether the event was held instead of tapped
+ * @returns Action configuration to execute
+ */
+export function getEventActionConfig(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+  hold: boolean,
+): Types.ActionConfig {
+  const tapAction =
+    EventUtils.getEntitySetting(event._entityId, 'event_tap_action', config, event) ||
+    config.event_tap_action;
+  const holdAction =
+    EventUtils.getEntitySetting(event._entityId, 'event_hold_action', config, event) ||
+    config.event_hold_action;
+
+  const actionConfig = hold && holdAction?.action !== 'none' ? holdAction : tapAction;
+
+  if ((!actionConfig || actionConfig.action === 'none') && config.show_event_details) {
+    return { action: 'details' };
+  }
+
+  return actionConfig || { action: 'none' };
+}
+
+/**
+ * Handle an action triggered on a single event
+ * Placeholders like {{summary}} in the action are replaced with the event's data
+ * and the event's calendar is used as entity
+ *
+ * @param actionConfig - Action configuration object
+ * @param event - Event that triggered the action
+ * @param hass - Home Assistant interface
+ * @param element - Element that triggered the action
+ * @param toggleCallback - Optional callback for toggle action
+ * @param detailsCallback - Optional callback for the details action
+ */
+export function handleEventAction(
+  actionConfig: Types.ActionConfig,
+  event: Types.CalendarEventData,
+  hass: Types.Hass | null,
+  element: Element,
+  toggleCallback?: () => void,
+  detailsCallback?: () => void,
+): void {
+  if (actionConfig.action === 'details') {
+    if (detailsCallback) {
+      detailsCallback();
+    }
+    return;
+  }
+
+  handleAction(
+    applyEventPlaceholders(actionConfig, event),
+    hass,
+    element,
+    event._entityId,
+    toggleCallback,
+  );
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Replace event placeholders in the templated fields of an action
+ * Values in paths and URLs are URL-encoded, values in service data are inserted as-is
+ *
+ * @param actionConfig - Action configuration with placeholders
+ * @param event - Event providing the values
+ * @returns Copy of the action configuration with placeholders replaced
+ */
+function applyEventPlaceholders(
+  actionConfig: Types.ActionConfig,
+  event: Types.CalendarEventData,
+): Types.ActionConfig {
+  const values: Record<string, string> = {
+    summary: event.summary || '',
+    start: event.start.dateTime || event.start.date || '',
+    end: event.end.dateTime || event.end.date || '',
+    location: event.location || '',
+    description: event.description || '',
+    entity: event._entityId || '',
+  };
+
+  const replaceInString = (text: string, encode: boolean) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+      if (!(name in values)) return placeholder;
+      return encode ? encodeURIComponent(values[name]) : values[name];
+    });
+
+  const replaceInData = (data: unknown): unknown => {
+    if (typeof data === 'string') return replaceInString(data, false);
+    if (Array.isArray(data)) return data.map(replaceInData);
+    if (data && typeof data === 'object') {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, replaceInData(value)]),
+      );
+    }
+    return data;
+  };
+
+  return {
+    ...actionConfig,
+    navigation_path: actionConfig.navigation_path
+      ? replaceInString(actionConfig.navigation_path, true)
+      : actionConfig.navigation_path,
+    url_path: actionConfig.url_path
+      ? replaceInString(actionConfig.url_path, true)
+      : actionConfig.url_path,
+    service_data: actionConfig.service_data
+      ? (replaceInData(actionConfig.service_data) as object)
+      : actionConfig.service_data,
+  };
+}
+
 //-----------------------------------------------------------------------------
 // PRIVATE ACTION HANDLERS
 //-----------------------------------------------------------------------------
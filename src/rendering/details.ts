@@ -0,0 +1,245 @@
+/* eslint-disable import/order */
+/**
+ * Event details dialog for Calendar Card Pro
+ *
+ * Renders the popup shown when an event is tapped, with the full
+ * time range, location, description, recurrence and source calendar,
+ * plus edit and delete actions for calendars that support them.
+ */
+
+import { TemplateResult, html, nothing } from 'lit';
+import { styleMap } from 'lit/directives/style-map.js';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as FormatUtils from '../utils/format';
+import * as EventUtils from '../utils/events';
+import * as Mutations from '../utils/mutations';
+import * as Render from './render';
+import * as EventForm from './form';
+
+//-----------------------------------------------------------------------------
+// DETAILS DIALOG RENDERING
+//-----------------------------------------------------------------------------
+
+/**
+ * Render the event details dialog
+ *
+ * @param event - Event to show details for
+ * @param config - Card configuration
+ * @param hass - Home Assistant instance (used for the calendar name)
+ * @param language - Language code for translations
+ * @param onClose - Callback to close the dialog
+ * @param actions - Optional edit/delete state and callbacks
+ * @returns TemplateResult for the dialog
+ */
+export function renderEventDetails(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+  hass: Types.Hass | null,
+  language: string,
+  onClose: () => void,
+  actions?: Types.EventDetailsActions,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const accentColor = EventUtils.getEntityAccentColorWithOpacity(
+    event._entityId,
+    config,
+    undefined,
+    event,
+  );
+
+  const startDate = event.start.dateTime
+    ? FormatUtils.parseDateTime(event.start.dateTime, config.time_zone)
+    : FormatUtils.parseAllDayDate(event.start.date || '');
+  const dateText = `${translations.fullDaysOfWeek[startDate.getDay()]}, ${startDate.getDate()} ${
+    translations.months[startDate.getMonth()]
+  } ${startDate.getFullYear()}`;
+
+  const description = FormatUtils.formatDescription(event.description || '');
+  const recurrence = event.rrule
+    ? FormatUtils.formatRecurrence(event.rrule, language)
+    : event.recurrence_id
+      ? translations.recurringEvent
+      : '';
+
+  const calendarName = event._entityId ? EventUtils.getEntityName(event._entityId, hass) : '';
+
+  const handleKeyDown = (ev: KeyboardEvent) => {
+    if (ev.key === 'Escape') {
+      ev.stopPropagation();
+      onClose();
+    }
+  };
+
+  return html`
+    <div class="details-backdrop" @click=${onClose} @keydown=${handleKeyDown}>
+      <div
+        class="details-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label=${EventUtils.getEventTitle(event)}
+        style=${styleMap({ borderTopColor: accentColor })}
+        @click=${(ev: Event) => ev.stopPropagation()}
+      >
+        <div class="details-header">
+          <div class="details-title">${EventUtils.getEventTitle(event)}</div>
+          <button class="details-close" aria-label=${translations.close} @click=${onClose}>
+            <ha-icon icon="mdi:close"></ha-icon>
+          </button>
+        </div>
+        <div class="details-row">
+          <ha-icon icon="mdi:clock-outline"></ha-icon>
+          <div>
+            <div>${dateText}</div>
+            <div class="details-secondary">
+              ${FormatUtils.formatEventTime(event, { ...config, show_end_time: true }, language)}
+            </div>
+            ${config.secondary_time_zone && event.start.dateTime
+              ? html`<div class="details-secondary">
+                  ${FormatUtils.formatSecondaryEventTime(
+                    event,
+                    { ...config, show_end_time: true },
+                    language,
+                  )}
+                </div>`
+              : nothing}
+          </div>
+        </div>
+        ${event.location
+          ? html`
+              <div class="details-row">
+                <ha-icon icon="mdi:map-marker"></ha-icon>
+                <div>${event.location}</div>
+              </div>
+            `
+          : nothing}
+        ${recurrence
+          ? html`
+              <div class="details-row">
+                <ha-icon icon="mdi:repeat"></ha-icon>
+                <div>${recurrence}</div>
+              </div>
+            `
+          : nothing}
+        ${calendarName
+          ? html`
+              <div class="details-row">
+                <ha-icon icon="mdi:calendar" style=${styleMap({ color: accentColor })}></ha-icon>
+                <div>
+                  ${Render.renderLabel(
+                    EventUtils.getEntityLabel(event._entityId, config, event),
+                  )}${calendarName}
+                </div>
+              </div>
+            `
+          : nothing}
+        ${description
+          ? html`
+              <div class="details-row">
+                <ha-icon icon="mdi:text"></ha-icon>
+                <div class="details-description">${linkifyText(description)}</div>
+              </div>
+            `
+          : nothing}
+        ${actions ? renderDetailsActions(event, language, actions) : nothing}
+      </div>
+    </div>
+  `;
+}
+
+//-----------------------------------------------------------------------------
+// DETAILS DIALOG HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Render the edit and delete actions of the details dialog
+ * Deleting asks for confirmation and, for recurring events, which occurrences to delete
+ *
+ * @param event - Event shown in the dialog
+ * @param language - Language code for translations
+ * @param actions - Edit/delete state and callbacks
+ * @returns TemplateResult for the actions
+ */
+function renderDetailsActions(
+  event: Types.CalendarEventData,
+  language: string,
+  actions: Types.EventDetailsActions,
+): TemplateResult | typeof nothing {
+  if (!actions.canEdit && !actions.canDelete) return nothing;
+
+  const translations = Localize.getTranslations(language);
+  const error = actions.error ? html`<div class="form-error">${actions.error}</div>` : nothing;
+
+  if (actions.confirmDelete) {
+    return html`
+      <div class="details-confirm">
+        <div>${translations.confirmDelete}</div>
+        ${Mutations.isRecurringEvent(event)
+          ? EventForm.renderRecurrenceScope(actions.scope, language, actions.scopeChange)
+          : nothing}
+      </div>
+      ${error}
+      <div class="form-actions">
+        <button type="button" class="form-button" @click=${actions.cancelDelete}>
+          ${translations.cancel}
+        </button>
+        <button
+          type="button"
+          class="form-button primary danger"
+          ?disabled=${actions.busy}
+          @click=${actions.confirm}
+        >
+          ${translations.delete}
+        </button>
+      </div>
+    `;
+  }
+
+  return html`
+    ${error}
+    <div class="form-actions">
+      ${actions.canDelete
+        ? html`
+            <button type="button" class="form-button danger" @click=${actions.requestDelete}>
+              ${translations.delete}
+            </button>
+          `
+        : nothing}
+      ${actions.canEdit
+        ? html`
+            <button type="button" class="form-button primary" @click=${actions.edit}>
+              ${translations.edit}
+            </button>
+          `
+        : nothing}
+    </div>
+  `;
+}
+
+/**
+ * Split plain text into text parts and clickable links
+ * Only http(s) URLs are turned into links, everything else stays escaped text
+ *
+ * @param text - Plain text to process
+ * @returns Array of strings and link templates
+ */
+function linkifyText(text: string): Array<string | TemplateResult> {
+  const urlPattern = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]]/g;
+  const parts: Array<string | TemplateResult> = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(urlPattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push(text.slice(lastIndex, index));
+    }
+    parts.push(html`<a href=${match[0]} target="_blank" rel="noopener noreferrer">${match[0]}</a>`);
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex));
+  }
+
+  return parts;
+}
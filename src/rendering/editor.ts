@@ -2,28 +2,1006 @@
 /**
  * Editor component for Calendar Card Pro
  *
- * This is a placeholder for the future UI editor implementation.
- * It will provide a visual interface for configuring the calendar card.
+ * Visual configuration interface shown in the Home Assistant card editor.
+ * Options are grouped into collapsible sections, calendars can be reordered
+ * by drag and drop and carry their own overrides. Values are validated while
+ * typing and only valid changes are sent to Home Assistant.
  */
 
+import { LitElement, TemplateResult, html, nothing } from 'lit';
+import { property } from 'lit/decorators.js';
+import * as Config from '../config/config';
+import * as Migration from '../config/migration';
 import * as Types from '../config/types';
+import * as Validation from '../config/validation';
+import * as Localize from '../translations/localize';
+import * as EventUtils from '../utils/events';
+import * as Render from './render';
+import * as Styles from './styles';
+
+//-----------------------------------------------------------------------------
+// EDITOR SCHEMA
+//-----------------------------------------------------------------------------
+
+/**
+ * Actions offered for the card-level tap and hold actions
+ */
+const CARD_ACTIONS = ['none', 'expand', 'more-info', 'navigate', 'url', 'call-service'];
+
+/**
+ * Actions offered for per-event actions, which can also open the event details
+ */
+const EVENT_ACTIONS = [...CARD_ACTIONS, 'details'];
+
+/**
+ * Options of the configuration grouped into editor sections
+ * The calendar list is rendered separately in the entities section
+ */
+const EDITOR_SECTIONS: Types.EditorSection[] = [
+  {
+    id: 'core',
+    icon: 'mdi:cog',
+    fields: [
+      {
+        name: 'view',
+        type: 'select',
+        options: [
+          { value: 'agenda', label: 'agenda' },
+          { value: 'month', label: 'month' },
+          { value: 'week', label: 'week' },
+          { value: 'day', label: 'day' },
+        ],
+      },
+      { name: 'days_to_show', type: 'number', min: 1 },
+      { name: 'start_date', type: 'date', placeholder: 'YYYY-MM-DD, today+7' },
+      { name: 'compact_days_to_show', type: 'number', min: 1 },
+      { name: 'compact_events_to_show', type: 'number', min: 1 },
+      { name: 'compact_events_complete_days', type: 'boolean' },
+      { name: 'compact_icon_only', type: 'boolean' },
+      { name: 'show_empty_days', type: 'boolean' },
+      { name: 'filter_duplicates', type: 'boolean' },
+      { name: 'split_multiday_events', type: 'boolean' },
+      { name: 'show_navigation', type: 'boolean' },
+      { name: 'month_events_per_day', type: 'number', min: 1 },
+      { name: 'timeline_start_hour', type: 'number', min: 0, max: 23 },
+      { name: 'timeline_end_hour', type: 'number', min: 1, max: 24 },
+      { name: 'timeline_hour_height', type: 'length' },
+      { name: 'language', type: 'text' },
+      { name: 'time_zone', type: 'text' },
+      { name: 'secondary_time_zone', type: 'text' },
+      { name: 'no_events_text', type: 'text' },
+    ],
+  },
+  {
+    id: 'entities',
+    icon: 'mdi:calendar-multiple',
+    fields: [],
+  },
+  {
+    id: 'layout',
+    icon: 'mdi:page-layout-body',
+    fields: [
+      { name: 'title', type: 'text' },
+      { name: 'title_font_size', type: 'length' },
+      { name: 'title_color', type: 'color' },
+      { name: 'show_legend', type: 'boolean' },
+      { name: 'background_color', type: 'color' },
+      { name: 'day_spacing', type: 'length' },
+      { name: 'event_spacing', type: 'length' },
+      { name: 'additional_card_spacing', type: 'length' },
+      { name: 'height', type: 'length' },
+      { name: 'max_height', type: 'length' },
+      { name: 'vertical_line_width', type: 'length' },
+      { name: 'vertical_line_color', type: 'color' },
+      { name: 'today_indicator', type: 'text', placeholder: 'true, false, pulse, glow, mdi:star' },
+      { name: 'today_indicator_position', type: 'text' },
+      { name: 'today_indicator_color', type: 'color' },
+      { name: 'today_indicator_size', type: 'length' },
+    ],
+  },
+  {
+    id: 'date',
+    icon: 'mdi:calendar-today',
+    fields: [
+      {
+        name: 'date_vertical_alignment',
+        type: 'select',
+        options: [
+          { value: 'top', label: 'top' },
+          { value: 'middle', label: 'middle' },
+          { value: 'bottom', label: 'bottom' },
+        ],
+      },
+      { name: 'weekday_font_size', type: 'length' },
+      { name: 'weekday_color', type: 'color' },
+      { name: 'day_font_size', type: 'length' },
+      { name: 'day_color', type: 'color' },
+      { name: 'show_month', type: 'boolean' },
+      { name: 'month_font_size', type: 'length' },
+      { name: 'month_color', type: 'color' },
+      { name: 'weekend_weekday_color', type: 'color' },
+      { name: 'weekend_day_color', type: 'color' },
+      { name: 'weekend_month_color', type: 'color' },
+      { name: 'today_weekday_color', type: 'color' },
+      { name: 'today_day_color', type: 'color' },
+      { name: 'today_month_color', type: 'color' },
+      { name: 'weather_entity', type: 'text' },
+    ],
+  },
+  {
+    id: 'events',
+    icon: 'mdi:calendar-text',
+    fields: [
+      { name: 'show_past_events', type: 'boolean' },
+      { name: 'show_completed_todos', type: 'boolean' },
+      { name: 'show_countdown', type: 'boolean' },
+      { name: 'show_progress_bar', type: 'boolean' },
+      { name: 'progress_bar_color', type: 'color' },
+      { name: 'progress_bar_height', type: 'length' },
+      { name: 'progress_bar_width', type: 'length' },
+      { name: 'event_background_opacity', type: 'number', min: 0, max: 100 },
+      { name: 'event_font_size', type: 'length' },
+      { name: 'event_color', type: 'color' },
+      { name: 'empty_day_color', type: 'color' },
+      { name: 'show_time', type: 'boolean' },
+      { name: 'show_single_allday_time', type: 'boolean' },
+      { name: 'time_24h', type: 'boolean' },
+      { name: 'show_end_time', type: 'boolean' },
+      { name: 'time_font_size', type: 'length' },
+      { name: 'time_color', type: 'color' },
+      { name: 'time_icon_size', type: 'length' },
+      { name: 'show_location', type: 'boolean' },
+      { name: 'remove_location_country', type: 'boolean' },
+      { name: 'location_font_size', type: 'length' },
+      { name: 'location_color', type: 'color' },
+      { name: 'location_icon_size', type: 'length' },
+    ],
+  },
+  {
+    id: 'actions',
+    icon: 'mdi:gesture-tap',
+    fields: [
+      { name: 'tap_action', type: 'action' },
+      { name: 'hold_action', type: 'action' },
+      { name: 'event_tap_action', type: 'action' },
+      { name: 'event_hold_action', type: 'action' },
+      { name: 'show_event_details', type: 'boolean' },
+      { name: 'show_add_event', type: 'boolean' },
+    ],
+  },
+  {
+    id: 'week',
+    icon: 'mdi:calendar-week',
+    fields: [
+      {
+        name: 'first_day_of_week',
+        type: 'select',
+        options: [
+          { value: 'system', label: 'system' },
+          { value: 'monday', label: 'monday' },
+          { value: 'sunday', label: 'sunday' },
+        ],
+      },
+      {
+        name: 'show_week_numbers',
+        type: 'select',
+        options: [
+          { value: '', label: 'hidden' },
+          { value: 'iso', label: 'iso' },
+          { value: 'simple', label: 'simple' },
+        ],
+      },
+      { name: 'show_current_week_number', type: 'boolean' },
+      { name: 'week_number_font_size', type: 'length' },
+      { name: 'week_number_color', type: 'color' },
+      { name: 'week_number_background_color', type: 'color' },
+      { name: 'day_separator_width', type: 'length' },
+      { name: 'day_separator_color', type: 'color' },
+      { name: 'week_separator_width', type: 'length' },
+      { name: 'week_separator_color', type: 'color' },
+      { name: 'month_separator_width', type: 'length' },
+      { name: 'month_separator_color', type: 'color' },
+    ],
+  },
+  {
+    id: 'cache',
+    icon: 'mdi:refresh',
+    fields: [
+      { name: 'refresh_interval', type: 'number', min: 1 },
+      { name: 'refresh_on_navigate', type: 'boolean' },
+    ],
+  },
+];
+
+/**
+ * Overrides available for each calendar
+ */
+const ENTITY_FIELDS: Types.EntityEditorField[] = [
+  { name: 'label', type: 'text' },
+  { name: 'color', type: 'color' },
+  { name: 'accent_color', type: 'color' },
+  { name: 'time_color', type: 'color' },
+  { name: 'location_color', type: 'color' },
+  { name: 'event_icon', type: 'text' },
+  { name: 'show_time', type: 'boolean' },
+  { name: 'show_location', type: 'boolean' },
+  { name: 'show_countdown', type: 'boolean' },
+  { name: 'split_multiday_events', type: 'boolean' },
+  { name: 'compact_events_to_show', type: 'number', min: 1 },
+  { name: 'allowlist', type: 'regex' },
+  { name: 'blocklist', type: 'regex' },
+  { name: 'event_tap_action', type: 'action' },
+  { name: 'event_hold_action', type: 'action' },
+  {
+    name: 'type',
+    type: 'select',
+    options: [
+      { value: '', label: 'events' },
+      { value: 'birthdays', label: 'birthdays' },
+    ],
+  },
+  { name: 'birthday_pattern', type: 'regex', placeholder: '\\((\\d{4})\\)' },
+  { name: 'birthday_template', type: 'text' },
+];
+
+//-----------------------------------------------------------------------------
+// EDITOR COMPONENT
+//-----------------------------------------------------------------------------
 
 /**
  * Calendar Card Pro Editor component
  *
- * This component will handle the visual configuration of the card.
- * Currently implemented as a placeholder for future development.
+ * Implements the Home Assistant card editor contract: receives the card
+ * configuration through setConfig and reports changes with config-changed events.
  */
-export class CalendarCardProEditor extends HTMLElement {
+export class CalendarCardProEditor extends LitElement {
+  @property({ attribute: false }) hass?: Types.Hass;
+  @property({ attribute: false }) config: Record<string, unknown> = {};
+  @property({ attribute: false }) errors: Record<string, string> = {};
+  @property({ attribute: false }) expandedEntity: number | null = null;
+  @property({ attribute: false }) migrationNoticeDismissed = false;
+
+  // Index of the calendar being dragged
+  private _dragIndex: number | null = null;
+
+  static get styles() {
+    return [Styles.editorStyles, Styles.migrationNoticeStyles];
+  }
+
   /**
    * Set the configuration for this editor
    *
-   * @param config - Partial configuration object
+   * @param config - Card configuration as written by the user
+   */
+  public setConfig(config: Readonly<Partial<Types.Config>>): void {
+    this.config = { ...config };
+  }
+
+  /**
+   * Language of the editor, following the card's language option
+   */
+  private get language(): string {
+    return Localize.getEffectiveLanguage(
+      this.config.language as string | undefined,
+      this.hass?.locale,
+    );
+  }
+
+  /**
+   * Translations of the editor labels and messages
+   */
+  private get translations(): Types.EditorTranslations {
+    return Localize.getTranslations(this.language).editor;
+  }
+
+  /**
+   * Configured calendars in their written form (entity ID or object)
+   */
+  private get entities(): Array<string | Types.EntityConfig> {
+    return Array.isArray(this.config.entities)
+      ? (this.config.entities as Array<string | Types.EntityConfig>)
+      : [];
+  }
+
+  //-----------------------------------------------------------------------------
+  // RENDERING
+  //-----------------------------------------------------------------------------
+
+  render() {
+    const migrations = this.migrationNoticeDismissed
+      ? []
+      : Migration.migrateConfig(this.config).applied;
+
+    return html`
+      <div class="editor">
+        ${migrations.length
+          ? Render.renderMigrationNotice(
+              migrations,
+              this.language,
+              () => {
+                this.migrationNoticeDismissed = true;
+              },
+              () => this._fireConfigChanged(Migration.migrateConfig(this.config).config),
+            )
+          : nothing}
+        ${EDITOR_SECTIONS.map(
+          (section) => html`
+            <details class="editor-section" ?open=${section.id === 'core'}>
+              <summary>
+                <ha-icon icon=${section.icon}></ha-icon>
+                ${this.translations.sections[section.id] ?? section.id}
+              </summary>
+              <div class="editor-section-content">
+                ${section.id === 'entities'
+                  ? this._renderEntities()
+                  : section.fields.map((field) =>
+                      this._renderField(
+                        field,
+                        this.config[field.name],
+                        Config.DEFAULT_CONFIG[field.name as keyof Types.Config],
+                        field.name,
+                        (value) => this._updateOption(field.name, value),
+                      ),
+                    )}
+              </div>
+            </details>
+          `,
+        )}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the calendar list with drag handles, overrides and the add selector
+   */
+  private _renderEntities(): TemplateResult {
+    const configuredIds = this.entities.map((entity) => getEntityId(entity));
+    const translations = this.translations;
+    const availableIds = Object.keys(this.hass?.states || {})
+      .filter((entityId) => entityId.startsWith('calendar.') && !configuredIds.includes(entityId))
+      .sort();
+
+    return html`
+      <datalist id="calendar-entities">
+        ${Object.keys(this.hass?.states || {})
+          .filter((entityId) => entityId.startsWith('calendar.'))
+          .map((entityId) => html`<option value=${entityId}></option>`)}
+      </datalist>
+      ${this.errors.entities
+        ? html`<div class="editor-error">${this.errors.entities}</div>`
+        : nothing}
+      ${this.entities.map((entity, index) => this._renderEntityRow(entity, index))}
+      ${availableIds.length
+        ? html`
+            <select class="editor-add-entity" @change=${this._handleAddEntity}>
+              <option value="" selected>${translations.addCalendar}…</option>
+              ${availableIds.map(
+                (entityId) => html`
+                  <option value=${entityId}>${getFriendlyName(entityId, this.hass)}</option>
+                `,
+              )}
+            </select>
+          `
+        : html`
+            <button type="button" class="editor-button" @click=${() => this._addEntity('')}>
+              <ha-icon icon="mdi:plus"></ha-icon>
+              ${translations.addCalendar}
+            </button>
+          `}
+    `;
+  }
+
+  /**
+   * Render a single calendar of the list
+   */
+  private _renderEntityRow(entity: string | Types.EntityConfig, index: number): TemplateResult {
+    const entityId = getEntityId(entity);
+    const overrides: Partial<Types.EntityConfig> = typeof entity === 'string' ? {} : entity;
+    const translations = Localize.getTranslations(this.language);
+    const isExpanded = this.expandedEntity === index;
+    const idError = this.errors[`entities.${index}.entity`];
+    const warning =
+      !idError && entityId && this.hass && !this.hass.states[entityId]
+        ? translations.editor.entityNotFound
+        : '';
+
+    return html`
+      <div
+        class="editor-entity ${this._dragIndex === index ? 'dragging' : ''}"
+        @dragover=${(ev: DragEvent) => ev.preventDefault()}
+        @drop=${(ev: DragEvent) => {
+          ev.preventDefault();
+          this._moveEntity(index);
+        }}
+      >
+        <div class="editor-entity-row">
+          <ha-icon
+            class="editor-entity-handle"
+            icon="mdi:drag"
+            draggable="true"
+            title=${translations.editor.dragToReorder}
+            @dragstart=${(ev: DragEvent) => {
+              this._dragIndex = index;
+              ev.dataTransfer?.setData('text/plain', String(index));
+              this.requestUpdate();
+            }}
+            @dragend=${() => {
+              this._dragIndex = null;
+              this.requestUpdate();
+            }}
+          ></ha-icon>
+          <input
+            type="text"
+            list="calendar-entities"
+            placeholder="calendar.example"
+            .value=${entityId}
+            @change=${(ev: Event) =>
+              this._updateEntityId(index, (ev.target as HTMLInputElement).value.trim())}
+          />
+          <button
+            type="button"
+            class="editor-icon-button"
+            title=${translations.editor.calendarOptions}
+            @click=${() => {
+              this.expandedEntity = isExpanded ? null : index;
+            }}
+          >
+            <ha-icon icon=${isExpanded ? 'mdi:chevron-up' : 'mdi:pencil'}></ha-icon>
+          </button>
+          <button
+            type="button"
+            class="editor-icon-button"
+            title=${translations.editor.removeCalendar}
+            @click=${() => this._removeEntity(index)}
+          >
+            <ha-icon icon="mdi:delete"></ha-icon>
+          </button>
+        </div>
+        ${idError ? html`<div class="editor-error">${idError}</div>` : nothing}
+        ${warning ? html`<div class="editor-warning">${warning}</div>` : nothing}
+        ${isExpanded
+          ? html`
+              <div class="editor-entity-overrides">
+                ${ENTITY_FIELDS.map((field) =>
+                  this._renderField(
+                    field,
+                    overrides[field.name],
+                    // Birthday titles default to the translated template
+                    field.name === 'birthday_template' ? translations.birthdayTemplate : undefined,
+                    `entities.${index}.${field.name}`,
+                    (value) => this._updateEntityOption(index, field.name, value),
+                    true,
+                  ),
+                )}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the input of a single option
+   *
+   * @param field - Option definition
+   * @param value - Configured value (undefined if not set)
+   * @param defaultValue - Value used by the card when the option is not set
+   * @param path - Key of the option in the error map
+   * @param onChange - Callback with the parsed, valid value (undefined removes the option)
+   * @param inherit - Whether unset booleans inherit a global setting (offers a third state)
+   */
+  private _renderField(
+    field: Types.EditorField,
+    value: unknown,
+    defaultValue: unknown,
+    path: string,
+    onChange: (value: unknown) => void,
+    inherit = false,
+  ): TemplateResult {
+    const translations = this.translations;
+    const label = translations.fields[field.name] ?? field.name;
+    const error = this.errors[path];
+    const commit = (raw: unknown) => this._commitField(field, raw, path, onChange);
+    const placeholder =
+      translations.placeholders[field.name] ??
+      field.placeholder ??
+      (defaultValue !== undefined && defaultValue !== null && typeof defaultValue !== 'object'
+        ? String(defaultValue)
+        : '');
+
+    let input: TemplateResult;
+
+    switch (field.type) {
+      case 'boolean':
+        if (inherit) {
+          const current = value === undefined ? '' : String(value);
+          input = html`
+            <select @change=${(ev: Event) => commit((ev.target as HTMLSelectElement).value)}>
+              ${[
+                ['', translations.inheritDefault],
+                ['true', translations.on],
+                ['false', translations.off],
+              ].map(
+                ([optionValue, label]) => html`
+                  <option value=${optionValue} ?selected=${current === optionValue}>
+                    ${label}
+                  </option>
+                `,
+              )}
+            </select>
+          `;
+        } else {
+          return html`
+            <label class="editor-field editor-checkbox">
+              <input
+                type="checkbox"
+                .checked=${Boolean(value ?? defaultValue)}
+                @change=${(ev: Event) => commit((ev.target as HTMLInputElement).checked)}
+              />
+              <span>${label}</span>
+            </label>
+          `;
+        }
+        break;
+
+      case 'select': {
+        const current = String(value ?? defaultValue ?? '');
+        input = html`
+          <select @change=${(ev: Event) => commit((ev.target as HTMLSelectElement).value)}>
+            ${(field.options || []).map(
+              (option) => html`
+                <option value=${option.value} ?selected=${current === option.value}>
+                  ${translations.options[option.label] ?? option.label}
+                </option>
+              `,
+            )}
+          </select>
+        `;
+        break;
+      }
+
+      case 'action':
+        return this._renderActionField(
+          field,
+          value as Types.ActionConfig | undefined,
+          path,
+          onChange,
+        );
+
+      default:
+        input = html`
+          <input
+            type=${field.type === 'number' ? 'number' : 'text'}
+            min=${field.min ?? nothing}
+            max=${field.max ?? nothing}
+            placeholder=${placeholder}
+            .value=${value === undefined || value === null ? '' : String(value)}
+            @input=${(ev: Event) => commit((ev.target as HTMLInputElement).value)}
+          />
+        `;
+    }
+
+    return html`
+      <label class="editor-field ${error ? 'invalid' : ''}">
+        <span>${label}</span>
+        ${input} ${error ? html`<div class="editor-error">${error}</div>` : nothing}
+      </label>
+    `;
+  }
+
+  /**
+   * Render an action option with the inputs required by the selected action
+   */
+  private _renderActionField(
+    field: Types.EditorField,
+    value: Types.ActionConfig | undefined,
+    path: string,
+    onChange: (value: unknown) => void,
+  ): TemplateResult {
+    const action = value?.action || 'none';
+    const actions = field.name.startsWith('event_') ? EVENT_ACTIONS : CARD_ACTIONS;
+    const update = (patch: Partial<Types.ActionConfig>) => {
+      const next = { ...(value || { action: 'none' }), ...patch } as Record<string, unknown>;
+      Object.keys(next).forEach((key) => next[key] === undefined && delete next[key]);
+      onChange(next.action === 'none' && Object.keys(next).length === 1 ? undefined : next);
+    };
+    const translations = this.translations;
+    const serviceDataError = this.errors[`${path}.service_data`];
+    const serviceError = this.errors[`${path}.service`];
+
+    return html`
+      <div class="editor-field editor-action">
+        <span>${translations.fields[field.name] ?? field.name}</span>
+        <select
+          @change=${(ev: Event) =>
+            update({
+              action: (ev.target as HTMLSelectElement).value,
+              navigation_path: undefined,
+              url_path: undefined,
+              service: undefined,
+              service_data: undefined,
+            })}
+        >
+          ${actions.map(
+            (option) =>
+              html`<option value=${option} ?selected=${option === action}>
+                ${translations.options[option] ?? option}
+              </option>`,
+          )}
+        </select>
+        ${action === 'navigate'
+          ? html`
+              <input
+                type="text"
+                placeholder="/lovelace/calendar"
+                .value=${value?.navigation_path || ''}
+                @change=${(ev: Event) =>
+                  update({ navigation_path: (ev.target as HTMLInputElement).value || undefined })}
+              />
+            `
+          : nothing}
+        ${action === 'url'
+          ? html`
+              <input
+                type="text"
+                placeholder="https://example.com"
+                .value=${value?.url_path || ''}
+                @change=${(ev: Event) =>
+                  update({ url_path: (ev.target as HTMLInputElement).value || undefined })}
+              />
+            `
+          : nothing}
+        ${action === 'call-service'
+          ? html`
+              <input
+                type="text"
+                placeholder="domain.service"
+                .value=${value?.service || ''}
+                @input=${(ev: Event) => {
+                  const service = (ev.target as HTMLInputElement).value.trim();
+                  if (this._setError(`${path}.service`, validateService(service, translations))) {
+                    update({ service: service || undefined });
+                  }
+                }}
+              />
+              ${serviceError ? html`<div class="editor-error">${serviceError}</div>` : nothing}
+              <textarea
+                rows="3"
+                placeholder='{"entity_id": "light.kitchen"}'
+                .value=${value?.service_data ? JSON.stringify(value.service_data, null, 2) : ''}
+                @input=${(ev: Event) => {
+                  const text = (ev.target as HTMLTextAreaElement).value.trim();
+                  const parsed = parseServiceData(text, translations);
+                  if (this._setError(`${path}.service_data`, parsed.error)) {
+                    update({ service_data: parsed.data });
+                  }
+                }}
+              ></textarea>
+              ${serviceDataError
+                ? html`<div class="editor-error">${serviceDataError}</div>`
+                : nothing}
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  //-----------------------------------------------------------------------------
+  // CONFIGURATION UPDATES
+  //-----------------------------------------------------------------------------
+
+  /**
+   * Parse and validate a raw input value, then pass valid values on
+   */
+  private _commitField(
+    field: Types.EditorField,
+    raw: unknown,
+    path: string,
+    onChange: (value: unknown) => void,
+  ): void {
+    const value = parseFieldValue(field, raw);
+    if (this._setError(path, validateFieldValue(field, value, this.translations))) {
+      onChange(value);
+    }
+  }
+
+  /**
+   * Store or clear the validation error of an option
+   *
+   * @returns True if the value is valid
+   */
+  private _setError(path: string, error: string | null): boolean {
+    const errors = { ...this.errors };
+    if (error) {
+      errors[path] = error;
+    } else {
+      delete errors[path];
+    }
+    this.errors = errors;
+    return !error;
+  }
+
+  /**
+   * Update a card-level option
+   * Options set back to their default are removed to keep the YAML short
+   */
+  private _updateOption(name: string, value: unknown): void {
+    const config = { ...this.config };
+    const defaultValue = Config.DEFAULT_CONFIG[name as keyof Types.Config];
+
+    if (value === undefined || JSON.stringify(value) === JSON.stringify(defaultValue)) {
+      delete config[name];
+    } else {
+      config[name] = value;
+    }
+
+    this._fireConfigChanged(config);
+  }
+
+  /**
+   * Update an override of a calendar
+   * Calendars without overrides are written as plain entity IDs
+   */
+  private _updateEntityOption(
+    index: number,
+    name: Types.EntityEditorField['name'],
+    value: unknown,
+  ): void {
+    const entities = [...this.entities];
+    const current = entities[index];
+    const entity: Types.EntityConfig =
+      typeof current === 'string' ? { entity: current } : { ...current };
+
+    if (value === undefined) {
+      delete entity[name];
+    } else {
+      // The value was parsed and validated for the field of this override
+      Object.assign(entity, { [name]: value });
+    }
+
+    entities[index] = Object.keys(entity).length === 1 ? entity.entity : entity;
+    this._updateEntities(entities);
+  }
+
+  /**
+   * Change the entity ID of a calendar, keeping its overrides
    */
-  public setConfig(_config: Readonly<Partial<Types.Config>>): void {
-    // Will be implemented in the future when we build the UI editor
-    // This is currently a placeholder
+  private _updateEntityId(index: number, entityId: string): void {
+    if (
+      !this._setError(`entities.${index}.entity`, validateEntityId(entityId, this.translations))
+    ) {
+      return;
+    }
+
+    const entities = [...this.entities];
+    const current = entities[index];
+    entities[index] = typeof current === 'string' ? entityId : { ...current, entity: entityId };
+    this._updateEntities(entities);
+  }
+
+  /**
+   * Add a calendar from the selector
+   */
+  private _handleAddEntity = (ev: Event) => {
+    const select = ev.target as HTMLSelectElement;
+    if (select.value) {
+      this._addEntity(select.value);
+    }
+    select.value = '';
+  };
+
+  /**
+   * Append a calendar to the list
+   */
+  private _addEntity(entityId: string): void {
+    this._updateEntities([...this.entities, entityId]);
+  }
+
+  /**
+   * Remove a calendar from the list
+   */
+  private _removeEntity(index: number): void {
+    this.expandedEntity = null;
+    this.errors = Object.fromEntries(
+      Object.entries(this.errors).filter(([path]) => !path.startsWith('entities.')),
+    );
+    this._updateEntities(this.entities.filter((_entity, i) => i !== index));
+  }
+
+  /**
+   * Move the dragged calendar to a new position
+   */
+  private _moveEntity(targetIndex: number): void {
+    const sourceIndex = this._dragIndex;
+    this._dragIndex = null;
+    if (sourceIndex === null || sourceIndex === targetIndex) return;
+
+    const entities = [...this.entities];
+    const [moved] = entities.splice(sourceIndex, 1);
+    entities.splice(targetIndex, 0, moved);
+
+    // Keep the moved calendar's options open
+    if (this.expandedEntity === sourceIndex) {
+      this.expandedEntity = targetIndex;
+    }
+    this._updateEntities(entities);
+  }
+
+  /**
+   * Replace the calendar list and validate that it isn't empty
+   */
+  private _updateEntities(entities: Array<string | Types.EntityConfig>): void {
+    this._setError('entities', entities.length ? null : this.translations.errorNoCalendars);
+    this._fireConfigChanged({ ...this.config, entities });
+  }
+
+  /**
+   * Store the new configuration and notify Home Assistant
+   */
+  private _fireConfigChanged(config: Record<string, unknown>): void {
+    this.config = config;
+    this.dispatchEvent(
+      new CustomEvent('config-changed', {
+        detail: { config },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the entity ID of a configured calendar
+ *
+ * @param entity - Entity ID or entity configuration
+ * @returns Entity ID
+ */
+function getEntityId(entity: string | Types.EntityConfig): string {
+  return typeof entity === 'string' ? entity : entity.entity;
+}
+
+/**
+ * Get the friendly name of an entity for the add selector
+ *
+ * @param entityId - Entity ID
+ * @param hass - Home Assistant instance
+ * @returns Friendly name with the entity ID as fallback
+ */
+function getFriendlyName(entityId: string, hass?: Types.Hass): string {
+  const name = hass?.states[entityId]?.attributes?.friendly_name;
+  return typeof name === 'string' && name ? name : entityId;
+}
+
+/**
+ * Convert the raw value of an input to the configuration value
+ *
+ * @param field - Option definition
+ * @param raw - Input value (string from text inputs and selects, boolean from checkboxes)
+ * @returns Parsed value, undefined for empty inputs
+ */
+function parseFieldValue(field: Types.EditorField, raw: unknown): unknown {
+  if (typeof raw === 'boolean') return raw;
+
+  const text = String(raw ?? '').trim();
+  if (text === '') return undefined;
+
+  switch (field.type) {
+    case 'number':
+      return Number(text);
+    case 'boolean':
+      return text === 'true';
+    default:
+      // The today indicator accepts booleans next to indicator styles and icons
+      if (field.name === 'today_indicator' && (text === 'true' || text === 'false')) {
+        return text === 'true';
+      }
+      return text;
   }
 }
 
-export {};
+/**
+ * Validate a parsed option value
+ *
+ * @param field - Option definition
+ * @param value - Parsed value
+ * @param translations - Editor translations for the error messages
+ * @returns Error message or null if the value is valid
+ */
+function validateFieldValue(
+  field: Types.EditorField,
+  value: unknown,
+  translations: Types.EditorTranslations,
+): string | null {
+  if (value === undefined || typeof value === 'boolean') return null;
+
+  switch (field.type) {
+    case 'number': {
+      const number = value as number;
+      if (isNaN(number)) return translations.errorNumber;
+      if (field.min !== undefined && number < field.min) {
+        return translations.errorMinimum.replace('{value}', String(field.min));
+      }
+      if (field.max !== undefined && number > field.max) {
+        return translations.errorMaximum.replace('{value}', String(field.max));
+      }
+      return null;
+    }
+
+    case 'length':
+      return Validation.isValidCssLength(String(value)) ? null : translations.errorLength;
+
+    case 'color':
+      return isValidCssColor(String(value)) ? null : translations.errorColor;
+
+    case 'regex':
+      return Validation.isValidRegex(String(value)) ? null : translations.errorRegex;
+
+    case 'date':
+      return EventUtils.isValidStartDate(String(value)) ? null : translations.errorDate;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate the entity ID of a calendar
+ *
+ * @param entityId - Entity ID
+ * @param translations - Editor translations for the error messages
+ * @returns Error message or null if the ID is valid
+ */
+function validateEntityId(entityId: string, translations: Types.EditorTranslations): string | null {
+  if (!entityId) return translations.errorEntityRequired;
+  return /^[a-z_]+\.[a-z0-9_]+$/.test(entityId) ? null : translations.errorEntityId;
+}
+
+/**
+ * Validate a service name of a call-service action
+ *
+ * @param service - Service in domain.service format
+ * @param translations - Editor translations for the error messages
+ * @returns Error message or null if the service is valid
+ */
+function validateService(service: string, translations: Types.EditorTranslations): string | null {
+  return !service || /^[a-z_]+\.[a-z0-9_]+$/.test(service) ? null : translations.errorService;
+}
+
+/**
+ * Parse the JSON service data of a call-service action
+ *
+ * @param text - JSON text
+ * @param translations - Editor translations for the error messages
+ * @returns Parsed object or an error message
+ */
+function parseServiceData(
+  text: string,
+  translations: Types.EditorTranslations,
+): { data?: object; error: string | null } {
+  if (!text) return { error: null };
+
+  try {
+    const data = JSON.parse(text);
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      return { data, error: null };
+    }
+  } catch {
+    // Reported below
+  }
+  return { error: translations.errorServiceData };
+}
+
+/**
+ * Check if a value is a valid CSS color
+ *
+ * @param value - Value to check
+ * @returns True if the browser accepts the value as a color
+ */
+function isValidCssColor(value: string): boolean {
+  if (/^var\(.+\)$/.test(value)) return true;
+  return typeof CSS === 'undefined' || CSS.supports('color', value);
+}
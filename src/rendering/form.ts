@@ -0,0 +1,233 @@
+/* eslint-disable import/order */
+/**
+ * Event form rendering for Calendar Card Pro
+ *
+ * Renders the dialog used to add events to one of the configured
+ * calendars or to edit existing events directly from the card.
+ */
+
+import { TemplateResult, html, nothing } from 'lit';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as EventUtils from '../utils/events';
+import * as Mutations from '../utils/mutations';
+
+//-----------------------------------------------------------------------------
+// EVENT FORM RENDERING
+//-----------------------------------------------------------------------------
+
+/**
+ * Render the add/edit event dialog
+ * The form edits an existing event when the form values contain a uid
+ *
+ * @param form - Current form values
+ * @param entityIds - Calendars the event can be created in
+ * @param hass - Home Assistant instance (used for calendar names)
+ * @param language - Language code for translations
+ * @param status - Current error message, recurrence scope and whether the form is being saved
+ * @param handlers - Callbacks for value changes, submit and cancel
+ * @returns TemplateResult for the dialog
+ */
+export function renderEventForm(
+  form: Types.EventFormData,
+  entityIds: string[],
+  hass: Types.Hass | null,
+  language: string,
+  status: { error: string; saving: boolean; scope: Types.RecurrenceScope },
+  handlers: {
+    change: (values: Partial<Types.EventFormData>) => void;
+    scopeChange: (scope: Types.RecurrenceScope) => void;
+    submit: () => void;
+    cancel: () => void;
+  },
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const isEditing = Boolean(form.uid);
+  const title = isEditing ? translations.editEvent : translations.addEvent;
+
+  const inputValue = (ev: Event) => (ev.target as HTMLInputElement).value;
+
+  const handleSubmit = (ev: Event) => {
+    ev.preventDefault();
+    handlers.submit();
+  };
+
+  const handleKeyDown = (ev: KeyboardEvent) => {
+    if (ev.key === 'Escape') {
+      ev.stopPropagation();
+      handlers.cancel();
+    }
+  };
+
+  return html`
+    <div class="details-backdrop" @click=${handlers.cancel} @keydown=${handleKeyDown}>
+      <form
+        class="details-dialog event-form"
+        role="dialog"
+        aria-modal="true"
+        aria-label=${title}
+        @click=${(ev: Event) => ev.stopPropagation()}
+        @submit=${handleSubmit}
+      >
+        <div class="details-header">
+          <div class="details-title">${title}</div>
+        </div>
+
+        <label class="form-field">
+          <span>${translations.eventTitle}</span>
+          <input
+            type="text"
+            .value=${form.summary}
+            @input=${(ev: Event) => handlers.change({ summary: inputValue(ev) })}
+          />
+        </label>
+
+        <label class="form-field form-checkbox">
+          <input
+            type="checkbox"
+            .checked=${form.all_day}
+            @change=${(ev: Event) =>
+              handlers.change({ all_day: (ev.target as HTMLInputElement).checked })}
+          />
+          <span>${translations.allDay}</span>
+        </label>
+
+        <div class="form-row">
+          <label class="form-field">
+            <span>${translations.start}</span>
+            <input
+              type="date"
+              .value=${form.start_date}
+              @change=${(ev: Event) => handlers.change({ start_date: inputValue(ev) })}
+            />
+          </label>
+          ${form.all_day
+            ? nothing
+            : html`
+                <label class="form-field">
+                  <span>&nbsp;</span>
+                  <input
+                    type="time"
+                    .value=${form.start_time}
+                    @change=${(ev: Event) => handlers.change({ start_time: inputValue(ev) })}
+                  />
+                </label>
+              `}
+        </div>
+
+        <div class="form-row">
+          <label class="form-field">
+            <span>${translations.end}</span>
+            <input
+              type="date"
+              .value=${form.end_date}
+              @change=${(ev: Event) => handlers.change({ end_date: inputValue(ev) })}
+            />
+          </label>
+          ${form.all_day
+            ? nothing
+            : html`
+                <label class="form-field">
+                  <span>&nbsp;</span>
+                  <input
+                    type="time"
+                    .value=${form.end_time}
+                    @change=${(ev: Event) => handlers.change({ end_time: inputValue(ev) })}
+                  />
+                </label>
+              `}
+        </div>
+
+        <label class="form-field">
+          <span>${translations.location}</span>
+          <input
+            type="text"
+            .value=${form.location}
+            @input=${(ev: Event) => handlers.change({ location: inputValue(ev) })}
+          />
+        </label>
+
+        <label class="form-field">
+          <span>${translations.description}</span>
+          <textarea
+            rows="3"
+            .value=${form.description}
+            @input=${(ev: Event) => handlers.change({ description: inputValue(ev) })}
+          ></textarea>
+        </label>
+
+        ${!isEditing && entityIds.length > 1
+          ? html`
+              <label class="form-field">
+                <span>${translations.calendar}</span>
+                <select
+                  .value=${form.entity}
+                  @change=${(ev: Event) => handlers.change({ entity: inputValue(ev) })}
+                >
+                  ${entityIds.map(
+                    (entityId) => html`
+                      <option value=${entityId} ?selected=${entityId === form.entity}>
+                        ${EventUtils.getEntityName(entityId, hass)}
+                      </option>
+                    `,
+                  )}
+                </select>
+              </label>
+            `
+          : nothing}
+        ${isEditing && Mutations.isRecurringEvent(form)
+          ? renderRecurrenceScope(status.scope, language, handlers.scopeChange)
+          : nothing}
+        ${status.error ? html`<div class="form-error">${status.error}</div>` : nothing}
+
+        <div class="form-actions">
+          <button type="button" class="form-button" @click=${handlers.cancel}>
+            ${translations.cancel}
+          </button>
+          <button type="submit" class="form-button primary" ?disabled=${status.saving}>
+            ${translations.save}
+          </button>
+        </div>
+      </form>
+    </div>
+  `;
+}
+
+/**
+ * Render the choice which occurrences of a recurring event an edit or delete applies to
+ *
+ * @param scope - Currently selected scope
+ * @param language - Language code for translations
+ * @param onChange - Callback for scope changes
+ * @returns TemplateResult for the scope choice
+ */
+export function renderRecurrenceScope(
+  scope: Types.RecurrenceScope,
+  language: string,
+  onChange: (scope: Types.RecurrenceScope) => void,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const options: Array<[Types.RecurrenceScope, string]> = [
+    ['this', translations.scopeThisEvent],
+    ['following', translations.scopeFollowingEvents],
+    ['all', translations.scopeAllEvents],
+  ];
+
+  return html`
+    <div class="form-scope" role="radiogroup">
+      ${options.map(
+        ([value, label]) => html`
+          <label class="form-field form-checkbox">
+            <input
+              type="radio"
+              name="recurrence-scope"
+              .checked=${scope === value}
+              @change=${() => onChange(value)}
+            />
+            <span>${label}</span>
+          </label>
+        `,
+      )}
+    </div>
+  `;
+}
@@ -0,0 +1,282 @@
+/* eslint-disable import/order */
+/**
+ * Month view rendering for Calendar Card Pro
+ *
+ * Renders a classic month grid from the same grouped day data
+ * used by the agenda view, so filters, duplicate handling and
+ * entity colors behave identically in both views.
+ */
+
+import { TemplateResult, html, nothing } from 'lit';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as FormatUtils from '../utils/format';
+import * as EventUtils from '../utils/events';
+import * as Rules from '../utils/rules';
+import * as Render from './render';
+
+//-----------------------------------------------------------------------------
+// MONTH VIEW RENDERING
+//-----------------------------------------------------------------------------
+
+/**
+ * Render the month grid
+ *
+ * @param days - Days with events as returned by groupEventsByDay
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on single events
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the month grid
+ */
+export function renderMonthView(
+  days: Types.EventsByDay[],
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const firstDayOfWeek = FormatUtils.getFirstDayOfWeek(config.first_day_of_week, language);
+  const grid = EventUtils.getMonthGridRange(
+    EventUtils.getStartDateReference(config),
+    firstDayOfWeek,
+  );
+  const showWeekNumbers = config.show_week_numbers !== null;
+
+  // Multi-day events are grouped on a single day, so place them on every cell they cover
+  const events = days.flatMap((day) => day.events).filter((event) => !event._isEmptyDay);
+
+  // Weekday header rotated to the configured first day of week
+  const weekdays = Array.from(
+    { length: 7 },
+    (_, i) => translations.daysOfWeek[(firstDayOfWeek + i) % 7],
+  );
+
+  // Build week rows
+  const weeks: Date[][] = [];
+  for (let week = 0; week < grid.weeks; week++) {
+    const dates: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      const date = new Date(grid.start);
+      date.setDate(grid.start.getDate() + week * 7 + i);
+      dates.push(date);
+    }
+    weeks.push(dates);
+  }
+
+  const gridStyle = {
+    gridTemplateColumns: `${showWeekNumbers ? 'auto ' : ''}repeat(7, minmax(0, 1fr))`,
+  };
+
+  return html`
+    <div class="month-view">
+      <div class="month-title">${translations.months[grid.month]} ${grid.year}</div>
+      <div class="month-grid" style=${styleMap(gridStyle)}>
+        ${showWeekNumbers ? html`<div class="month-weekday-header"></div>` : nothing}
+        ${weekdays.map((weekday) => html`<div class="month-weekday-header">${weekday}</div>`)}
+        ${weeks.map(
+          (dates) => html`
+            ${showWeekNumbers
+              ? html`<div class="month-week-number">
+                  <div class="week-number">
+                    ${EventUtils.calculateWeekNumberWithMajorityRule(
+                      dates[0],
+                      config,
+                      firstDayOfWeek,
+                    )}
+                  </div>
+                </div>`
+              : nothing}
+            ${dates.map((date) =>
+              renderMonthDay(
+                date,
+                getCellEvents(events, date, config.time_zone),
+                grid.month,
+                config,
+                language,
+                onEventTap,
+                todoActions,
+              ),
+            )}
+          `,
+        )}
+      </div>
+    </div>
+  `;
+}
+
+//-----------------------------------------------------------------------------
+// MONTH VIEW HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the events covering a cell of the month grid
+ * All-day events are listed before timed events, otherwise the grouped order is kept
+ *
+ * @param events - All events of the grid
+ * @param date - Date of the cell
+ * @param timeZone - Display time zone
+ * @returns Events of the cell
+ */
+function getCellEvents(
+  events: Types.CalendarEventData[],
+  date: Date,
+  timeZone?: string,
+): Types.CalendarEventData[] {
+  return events
+    .filter((event) => EventUtils.isEventOnDate(event, date, timeZone))
+    .sort(
+      (a, b) =>
+        Number(FormatUtils.getEventModel(b, timeZone).isAllDay) -
+        Number(FormatUtils.getEventModel(a, timeZone).isAllDay),
+    );
+}
+
+/**
+ * Render a single day cell of the month grid
+ *
+ * @param date - Date of the cell
+ * @param events - Events covering this date
+ * @param displayedMonth - Month index the grid is showing
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on single events
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the day cell
+ */
+function renderMonthDay(
+  date: Date,
+  events: Types.CalendarEventData[],
+  displayedMonth: number,
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const todayStart = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(config.time_zone));
+  const isToday = date.toDateString() === todayStart.toDateString();
+
+  const maxEvents = Math.max(0, config.month_events_per_day);
+  const visibleEvents = events.slice(0, maxEvents);
+  const hiddenCount = events.length - visibleEvents.length;
+
+  const dayClasses = {
+    'month-day': true,
+    today: isToday,
+    weekend: Render.isWeekend(date),
+    'other-month': date.getMonth() !== displayedMonth,
+    'past-day': date < todayStart,
+  };
+
+  return html`
+    <div class=${classMap(dayClasses)}>
+      <div class="month-day-number">${date.getDate()}</div>
+      <div class="month-day-events">
+        ${visibleEvents.map((event) =>
+          renderMonthEvent(event, config, language, onEventTap, todoActions),
+        )}
+        ${hiddenCount > 0
+          ? html`<div class="month-more">
+              ${Localize.getTranslations(language).moreEvents.replace(
+                '{count}',
+                String(hiddenCount),
+              )}
+            </div>`
+          : nothing}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render a compact event entry inside a month grid cell
+ * All-day events are rendered as colored bars, timed events with a colored dot
+ *
+ * @param event - Event to render
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on the event
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the event entry
+ */
+function renderMonthEvent(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const isAllDayEvent = FormatUtils.getEventModel(event, config.time_zone).isAllDay;
+  const entityColor = EventUtils.getEntityColor(event._entityId, config, event);
+  const accentColor = EventUtils.getEntityAccentColorWithOpacity(
+    event._entityId,
+    config,
+    undefined,
+    event,
+  );
+  const label = EventUtils.getEntityLabel(event._entityId, config, event);
+  const icon = Render.renderEventIcon(EventUtils.getEventIcon(event, config));
+  const checkbox = Render.renderTodoCheckbox(event, language, todoActions);
+  const tapListeners = Render.getEventTapListeners(event, onEventTap);
+  const eventClasses = {
+    'month-event': true,
+    'month-event-bar': isAllDayEvent,
+    tappable: Boolean(tapListeners.click),
+    'todo-completed': event._todoStatus === Constants.TODO.STATUS_COMPLETED,
+    ...Rules.getRuleClasses(event._ruleStyle),
+  };
+
+  if (isAllDayEvent) {
+    return html`
+      <div
+        class=${classMap(eventClasses)}
+        style=${styleMap({
+          color: entityColor,
+          borderLeftColor: accentColor,
+          backgroundColor: EventUtils.getEntityAccentColorWithOpacity(
+            event._entityId,
+            config,
+            EventUtils.getEventBackgroundOpacity(event, config) || 20,
+            event,
+          ),
+        })}
+        title=${EventUtils.getEventTitle(event)}
+        tabindex=${tapListeners.click ? 0 : nothing}
+        @click=${tapListeners.click}
+        @keydown=${tapListeners.keyDown}
+        @pointerdown=${tapListeners.pointerDown}
+        @pointerup=${tapListeners.pointerUp}
+        @pointercancel=${tapListeners.pointerCancel}
+      >
+        ${checkbox}${Render.renderLabel(label)}${icon}${EventUtils.getEventTitle(event)}
+      </div>
+    `;
+  }
+
+  const startTime = FormatUtils.formatTime(
+    FormatUtils.parseDateTime(event.start.dateTime!, config.time_zone),
+    config.time_24h,
+  );
+
+  return html`
+    <div
+      class=${classMap(eventClasses)}
+      style=${styleMap({ color: entityColor })}
+      title=${EventUtils.getEventTitle(event)}
+      tabindex=${tapListeners.click ? 0 : nothing}
+      @click=${tapListeners.click}
+      @keydown=${tapListeners.keyDown}
+      @pointerdown=${tapListeners.pointerDown}
+      @pointerup=${tapListeners.pointerUp}
+      @pointercancel=${tapListeners.pointerCancel}
+    >
+      <span class="month-event-dot" style=${styleMap({ backgroundColor: accentColor })}></span>
+      ${config.show_time ? html`<span class="month-event-time">${startTime}</span>` : nothing}
+      ${checkbox}${Render.renderLabel(label)}${icon}${EventUtils.getEventTitle(event)}
+    </div>
+  `;
+}
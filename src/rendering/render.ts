@@ -17,6 +17,17 @@ import * as Localize from '../translations/localize';
 import * as FormatUtils from '../utils/format';
 import * as EventUtils from '../utils/events';
 import * as Helpers from '../utils/helpers';
+import * as Rules from '../utils/rules';
+import * as Weather from '../utils/weather';
+
+/**
+ * Pointer state of the event that is currently pressed
+ * Kept outside of the listeners so a re-render during a hold doesn't lose it
+ */
+const eventPress: { downTime: number | null; holdHandled: boolean } = {
+  downTime: null,
+  holdHandled: false,
+};
 
 //-----------------------------------------------------------------------------
 // MAIN CARD STRUCTURE RENDERING
@@ -31,6 +42,9 @@ import * as Helpers from '../utils/helpers';
  * @param content Main card content (events or status)
  * @param handlers Event handler functions
  * @param maxHeightSet Flag to add max-height-set class
+ * @param headerActions Optional buttons rendered at the end of the header
+ * @param navigable Flag to add navigable class (horizontal swipes navigate)
+ * @param legend Optional calendar legend rendered below the header
  * @returns TemplateResult for the complete card
  */
 export function renderMainCardStructure(
@@ -45,10 +59,15 @@ export function renderMainCardStructure(
     pointerLeave: (ev: Event) => void;
   },
   maxHeightSet: boolean = false,
+  headerActions: TemplateResult | typeof nothing = nothing,
+  navigable: boolean = false,
+  legend: TemplateResult | typeof nothing = nothing,
 ): TemplateResult {
   return html`
     <ha-card
-      class="calendar-card-pro ${maxHeightSet ? 'max-height-set' : ''}"
+      class="calendar-card-pro ${maxHeightSet ? 'max-height-set' : ''} ${navigable
+        ? 'navigable'
+        : ''}"
       style=${styleMap(customStyles)}
       tabindex="0"
       @keydown=${handlers.keyDown}
@@ -60,11 +79,13 @@ export function renderMainCardStructure(
       <ha-ripple></ha-ripple>
 
       <!-- Title is always rendered with the same structure, even if empty -->
-      <div class="header-container">
+      <div class="header-container ${headerActions !== nothing ? 'has-actions' : ''}">
         ${title
           ? html`<h1 class="card-header">${title}</h1>`
           : html`<div class="card-header-placeholder"></div>`}
+        ${headerActions}
       </div>
+      ${legend}
 
       <!-- Content container is always present -->
       <div class="content-container">${content}</div>
@@ -72,14 +93,167 @@ export function renderMainCardStructure(
   `;
 }
 
+/**
+ * Render a button for the card header
+ * Pointer events are stopped so the card-level tap and hold actions don't fire as well
+ *
+ * @param icon - MDI icon of the button
+ * @param label - Accessible label and tooltip
+ * @param onClick - Click handler
+ * @returns TemplateResult for the header button
+ */
+export function renderHeaderButton(
+  icon: string,
+  label: string,
+  onClick: () => void,
+): TemplateResult {
+  const stop = (ev: Event) => ev.stopPropagation();
+
+  return html`
+    <button
+      class="header-button"
+      title=${label}
+      aria-label=${label}
+      @click=${(ev: Event) => {
+        ev.stopPropagation();
+        onClick();
+      }}
+      @keydown=${stop}
+      @pointerdown=${stop}
+      @pointerup=${stop}
+    >
+      <ha-icon icon=${icon}></ha-icon>
+    </button>
+  `;
+}
+
+/**
+ * Render the previous/today/next navigation of the card header
+ *
+ * @param language - Language code for translations
+ * @param handlers - Callbacks for the navigation buttons
+ * @returns TemplateResult for the navigation buttons
+ */
+export function renderHeaderNavigation(
+  language: string,
+  handlers: { previous: () => void; today: () => void; next: () => void },
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+
+  return html`
+    <div class="header-navigation">
+      ${renderHeaderButton('mdi:chevron-left', translations.previous, handlers.previous)}
+      ${renderHeaderButton('mdi:calendar-today', translations.today, handlers.today)}
+      ${renderHeaderButton('mdi:chevron-right', translations.next, handlers.next)}
+    </div>
+  `;
+}
+
+/**
+ * Render the badge listing calendars that could not be fetched
+ *
+ * @param failedEntities - Calendar entity IDs that failed to load
+ * @param hass - Home Assistant instance (used for the calendar names)
+ * @param language - Language code for translations
+ * @returns TemplateResult for the badge
+ */
+export function renderUnavailableBadge(
+  failedEntities: string[],
+  hass: Types.Hass | null,
+  language: string,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const text =
+    failedEntities.length === 1
+      ? translations.calendarUnavailable
+      : translations.calendarsUnavailable.replace('{count}', String(failedEntities.length));
+  const names = failedEntities.map((entityId) => EventUtils.getEntityName(entityId, hass));
+
+  return html`
+    <div class="unavailable-badge" role="status" title=${names.join(', ')}>
+      <ha-icon icon="mdi:calendar-alert"></ha-icon>
+      ${text}
+    </div>
+  `;
+}
+
+/**
+ * Render the legend of the configured calendars
+ * Tapping a calendar hides or shows its events; pointer events are stopped
+ * so the card-level tap and hold actions don't fire as well
+ *
+ * @param config - Card configuration
+ * @param hass - Home Assistant instance (used for the calendar names)
+ * @param hiddenEntities - Entity IDs of the hidden calendars
+ * @param language - Language code for translations
+ * @param onToggle - Called with the entity ID of the tapped calendar
+ * @returns TemplateResult for the legend
+ */
+export function renderLegend(
+  config: Types.Config,
+  hass: Types.Hass | null,
+  hiddenEntities: Set<string>,
+  language: string,
+  onToggle: (entityId: string) => void,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const stop = (ev: Event) => ev.stopPropagation();
+
+  return html`
+    <div class="legend">
+      ${config.entities.map((entity) => {
+        const entityId = typeof entity === 'string' ? entity : entity.entity;
+        const isHidden = hiddenEntities.has(entityId);
+        const name = EventUtils.getEntityName(entityId, hass);
+        const label = (isHidden ? translations.showCalendar : translations.hideCalendar).replace(
+          '{name}',
+          name,
+        );
+
+        return html`
+          <button
+            class="legend-item ${isHidden ? 'legend-item-hidden' : ''}"
+            title=${label}
+            aria-label=${label}
+            aria-pressed=${isHidden ? 'false' : 'true'}
+            @click=${(ev: Event) => {
+              ev.stopPropagation();
+              onToggle(entityId);
+            }}
+            @keydown=${stop}
+            @pointerdown=${stop}
+            @pointerup=${stop}
+          >
+            <span
+              class="legend-color"
+              style=${styleMap({
+                backgroundColor: EventUtils.getEntityAccentColorWithOpacity(entityId, config),
+              })}
+            ></span>
+            ${renderLabel(typeof entity === 'string' ? undefined : entity.label)}
+            <span
+              class="legend-name"
+              style=${styleMap({ color: EventUtils.getEntityColor(entityId, config) })}
+              >${name}</span
+            >
+          </button>
+        `;
+      })}
+    </div>
+  `;
+}
+
 /**
  * Render card content based on state
  *
- * @param state Card state (loading, error)renderWeekRow
+ * @param state Card state (loading, error, unavailable)
  * @param language Language code for translations
  * @returns Template result for card content
  */
-export function renderCardContent(state: 'loading' | 'error', language: string): TemplateResult {
+export function renderCardContent(
+  state: 'loading' | 'error' | 'unavailable',
+  language: string,
+): TemplateResult {
   const translations = Localize.getTranslations(language);
 
   if (state === 'loading') {
@@ -92,7 +266,123 @@ export function renderCardContent(state: 'loading' | 'error', language: string):
 
   return html`
     <div class="calendar-card">
-      <div class="error">${translations.error}</div>
+      <div class="error">
+        ${state === 'unavailable' ? translations.errorLoadFailed : translations.error}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render the indicator showing when the displayed events were fetched
+ * Shown while outdated events are displayed during or after a failed refresh
+ *
+ * @param timestamp - Time the events were fetched (milliseconds)
+ * @param language - Language code for translations
+ * @returns Template result for the indicator
+ */
+export function renderLastUpdated(timestamp: number, language: string): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const minutes = Math.max(1, Math.floor((Date.now() - timestamp) / 60000));
+  const text =
+    minutes < 60
+      ? translations.updatedMinutesAgo.replace('{count}', String(minutes))
+      : translations.updatedHoursAgo.replace('{count}', String(Math.floor(minutes / 60)));
+
+  return html`
+    <div class="last-updated" title=${new Date(timestamp).toLocaleString(language)}>
+      <ha-icon icon="mdi:clock-alert-outline"></ha-icon>
+      ${text}
+    </div>
+  `;
+}
+
+/**
+ * Render the configuration error report
+ * Lists all errors and warnings, each with the option path and a suggestion if available
+ *
+ * @param validation - Result of the configuration validation
+ * @param language - Language code for translations
+ * @returns Template result for the error report
+ */
+export function renderConfigErrors(
+  validation: Types.ConfigValidationResult,
+  language: string,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const [beforeSuggestion, afterSuggestion = ''] = translations.didYouMean.split('{suggestion}');
+
+  return html`
+    <div class="calendar-card">
+      <div class="config-errors">
+        <div class="error">${translations.configError}</div>
+        <ul>
+          ${[...validation.errors, ...validation.warnings].map(
+            (issue) => html`
+              <li class="config-issue ${issue.severity}">
+                <code>${issue.path}</code>:
+                ${issue.message}${issue.suggestion
+                  ? html` (${beforeSuggestion}<code>${issue.suggestion}</code>${afterSuggestion})`
+                  : nothing}
+              </li>
+            `,
+          )}
+        </ul>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render the notice listing deprecated options that were migrated automatically
+ * Pointer events are stopped so the card-level tap and hold actions don't fire as well
+ *
+ * @param migrations - Migrations applied to the configuration
+ * @param language - Language code for translations
+ * @param onDismiss - Callback to hide the notice
+ * @param onApply - Optional callback to save the migrated configuration
+ * @returns Template result for the notice
+ */
+export function renderMigrationNotice(
+  migrations: Types.AppliedMigration[],
+  language: string,
+  onDismiss: () => void,
+  onApply?: () => void,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const stop = (ev: Event) => ev.stopPropagation();
+
+  return html`
+    <div
+      class="migration-notice"
+      role="status"
+      @click=${stop}
+      @keydown=${stop}
+      @pointerdown=${stop}
+      @pointerup=${stop}
+    >
+      <ha-icon icon="mdi:update"></ha-icon>
+      <div class="migration-notice-content">
+        <div>${translations.deprecatedOptions}</div>
+        <ul>
+          ${migrations.map(
+            (migration) =>
+              html`<li><code>${migration.from}</code> → <code>${migration.to}</code></li>`,
+          )}
+        </ul>
+        <div class="migration-notice-actions">
+          ${onApply
+            ? html`
+                <button type="button" class="migration-notice-button primary" @click=${onApply}>
+                  ${translations.applyMigration}
+                </button>
+              `
+            : nothing}
+          <button type="button" class="migration-notice-button" @click=${onDismiss}>
+            ${translations.dismiss}
+          </button>
+        </div>
+      </div>
     </div>
   `;
 }
@@ -293,7 +583,7 @@ function renderWeekRow(
  * @param label - Label content from entity configuration
  * @returns TemplateResult for the appropriate label type
  */
-function renderLabel(label: string | undefined): TemplateResult | typeof nothing {
+export function renderLabel(label: string | undefined): TemplateResult | typeof nothing {
   if (!label) return nothing;
 
   // Handle Material Design Icons (mdi:icon-name syntax)
@@ -310,6 +600,131 @@ function renderLabel(label: string | undefined): TemplateResult | typeof nothing
   return html`<span class="calendar-label">${label}</span>`;
 }
 
+/**
+ * Render the icon shown before an event title
+ *
+ * @param icon - mdi: icon or emoji from event rules, event_icons or the calendar's event_icon
+ * @returns TemplateResult for the icon
+ */
+export function renderEventIcon(icon: string | undefined): TemplateResult | typeof nothing {
+  if (!icon) return nothing;
+
+  if (icon.startsWith('mdi:')) {
+    return html`<ha-icon icon="${icon}" class="event-icon"></ha-icon>`;
+  }
+
+  if (Helpers.isEmoji(icon)) {
+    return html`<span class="event-icon">${icon}</span>`;
+  }
+
+  // Images and other text are shown like calendar labels
+  return renderLabel(icon);
+}
+
+/**
+ * Render the checkbox of a todo item that completes or reopens it
+ * Pointer events are stopped so tapping the checkbox doesn't trigger event or card actions
+ *
+ * Nothing is rendered for other events and items whose list can't update them
+ *
+ * @param event - Event created from the todo item
+ * @param language - Language code for translations
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the checkbox
+ */
+export function renderTodoCheckbox(
+  event: Types.CalendarEventData,
+  language: string,
+  todoActions?: Types.TodoActions,
+): TemplateResult | typeof nothing {
+  if (!event._todoStatus || !todoActions?.canToggle(event)) return nothing;
+
+  const translations = Localize.getTranslations(language);
+  const isCompleted = event._todoStatus === Constants.TODO.STATUS_COMPLETED;
+  const label = isCompleted ? translations.reopenTodo : translations.completeTodo;
+  const stop = (ev: Event) => ev.stopPropagation();
+
+  return html`
+    <button
+      class="todo-checkbox"
+      role="checkbox"
+      aria-checked=${isCompleted ? 'true' : 'false'}
+      title=${label}
+      aria-label=${label}
+      @click=${(ev: Event) => {
+        ev.stopPropagation();
+        todoActions.toggle(event);
+      }}
+      @keydown=${stop}
+      @pointerdown=${stop}
+      @pointerup=${stop}
+    >
+      <ha-icon
+        icon=${isCompleted ? 'mdi:checkbox-marked-outline' : 'mdi:checkbox-blank-outline'}
+      ></ha-icon>
+    </button>
+  `;
+}
+
+/**
+ * Build the listeners that make a rendered event tappable and holdable
+ * Pointer events are stopped so the card-level tap and hold actions don't fire as well
+ *
+ * @param event - Event the listeners belong to
+ * @param onEventTap - Callback for event taps and holds (no listeners are returned when not set)
+ * @returns Listener functions for the event element
+ */
+export function getEventTapListeners(
+  event: Types.CalendarEventData,
+  onEventTap?: Types.EventTapHandler,
+): {
+  click?: (ev: Event) => void;
+  keyDown?: (ev: KeyboardEvent) => void;
+  pointerDown?: (ev: PointerEvent) => void;
+  pointerUp?: (ev: PointerEvent) => void;
+  pointerCancel?: () => void;
+} {
+  if (!onEventTap || event._isEmptyDay) return {};
+
+  return {
+    click: (ev: Event) => {
+      ev.stopPropagation();
+
+      // The click following a hold has already been handled on pointer up
+      if (eventPress.holdHandled) {
+        eventPress.holdHandled = false;
+        return;
+      }
+      onEventTap(event, false);
+    },
+    keyDown: (ev: KeyboardEvent) => {
+      if (ev.key === 'Enter' || ev.key === ' ') {
+        ev.preventDefault();
+        ev.stopPropagation();
+        onEventTap(event, false);
+      }
+    },
+    pointerDown: (ev: PointerEvent) => {
+      ev.stopPropagation();
+      eventPress.downTime = ev.timeStamp;
+      eventPress.holdHandled = false;
+    },
+    pointerUp: (ev: PointerEvent) => {
+      ev.stopPropagation();
+      const downTime = eventPress.downTime;
+      eventPress.downTime = null;
+
+      if (downTime !== null && ev.timeStamp - downTime >= Constants.TIMING.HOLD_THRESHOLD) {
+        eventPress.holdHandled = true;
+        onEventTap(event, true);
+      }
+    },
+    pointerCancel: () => {
+      eventPress.downTime = null;
+    },
+  };
+}
+
 //-----------------------------------------------------------------------------
 // CONTENT GENERATION FUNCTIONS
 //-----------------------------------------------------------------------------
@@ -320,7 +735,7 @@ function renderLabel(label: string | undefined): TemplateResult | typeof nothing
  * @param date - Date to check
  * @returns True if the date is a weekend day
  */
-function isWeekend(date: Date): boolean {
+export function isWeekend(date: Date): boolean {
   const day = date.getDay();
   return day === 0 || day === 6; // 0 = Sunday, 6 = Saturday
 }
@@ -528,6 +943,30 @@ function renderDateColumn(date: Date, config: Types.Config, isToday: boolean): T
   `;
 }
 
+/**
+ * Render the weather forecast of a day below its date
+ *
+ * @param forecast - Forecast entry of the day (nothing is rendered without one)
+ * @returns TemplateResult for the condition icon with high and low temperature
+ */
+function renderDayForecast(
+  forecast: Types.WeatherForecast | undefined,
+): TemplateResult | typeof nothing {
+  if (!forecast) return nothing;
+
+  return html`
+    <div class="day-forecast">
+      <ha-icon icon=${Weather.getConditionIcon(forecast.condition)}></ha-icon>
+      ${typeof forecast.temperature === 'number'
+        ? html`<span class="forecast-high">${Math.round(forecast.temperature)}°</span>`
+        : nothing}
+      ${typeof forecast.templow === 'number'
+        ? html`<span class="forecast-low">${Math.round(forecast.templow)}°</span>`
+        : nothing}
+    </div>
+  `;
+}
+
 /**
  * Render a single day with its events
  *
@@ -536,6 +975,9 @@ function renderDateColumn(date: Date, config: Types.Config, isToday: boolean): T
  * @param language - Language code for translations
  * @param prevDay - Previous day data for determining separators
  * @param boundaryInfo - Information about week and month boundaries
+ * @param onEventTap - Optional callback for taps on single events
+ * @param isCompact - Whether the card is in compact (not expanded) mode
+ * @param todoActions - Optional checkbox state and callback of todo items
  * @returns TemplateResult for the day
  */
 export function renderDay(
@@ -544,10 +986,12 @@ export function renderDay(
   language: string,
   prevDay?: Types.EventsByDay,
   boundaryInfo?: { isNewWeek: boolean; isNewMonth: boolean },
+  onEventTap?: Types.EventTapHandler,
+  isCompact = false,
+  todoActions?: Types.TodoActions,
 ): TemplateResult {
-  // Check if this day is today
-  const now = new Date();
-  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  // Check if this day is today in the display time zone
+  const todayStart = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(config.time_zone));
   const dayDate = new Date(day.timestamp);
   const isToday = dayDate.toDateString() === todayStart.toDateString();
 
@@ -570,9 +1014,8 @@ export function renderDay(
   const hasWeekSeparator =
     isWeekBoundary && (config.show_week_numbers !== null || config.week_separator_width !== '0px');
 
-  // Use day_separator_width with fallback to horizontal_line_width
-  const daySeparatorWidth = config.day_separator_width || config.horizontal_line_width;
-  const daySeparatorColor = config.day_separator_color || config.horizontal_line_color;
+  const daySeparatorWidth = config.day_separator_width;
+  const daySeparatorColor = config.day_separator_color;
 
   if (prevDay && daySeparatorWidth !== '0px' && !hasMonthSeparator && !hasWeekSeparator) {
     const separatorStyle = createSeparatorStyle(
@@ -591,7 +1034,18 @@ export function renderDay(
       ${repeat(
         day.events,
         (event, index) => `${event._entityId}-${event.summary}-${index}`,
-        (event, index) => renderEvent(event, day, index, config, language, isToday),
+        (event, index) =>
+          renderEvent(
+            event,
+            day,
+            index,
+            config,
+            language,
+            isToday,
+            onEventTap,
+            isCompact,
+            todoActions,
+          ),
       )}
     </table>
   `;
@@ -605,6 +1059,9 @@ export function renderGroupedEvents(
   days: Types.EventsByDay[],
   config: Types.Config,
   language: string,
+  onEventTap?: Types.EventTapHandler,
+  isCompact = false,
+  todoActions?: Types.TodoActions,
 ): TemplateResult {
   // Get the configured first day of week
   const firstDayOfWeek = FormatUtils.getFirstDayOfWeek(config.first_day_of_week, language);
@@ -669,7 +1126,19 @@ export function renderGroupedEvents(
         }
       }
 
-      return html` ${separator} ${renderDay(day, config, language, prevDay, boundaryInfo)} `;
+      return html`
+        ${separator}
+        ${renderDay(
+          day,
+          config,
+          language,
+          prevDay,
+          boundaryInfo,
+          onEventTap,
+          isCompact,
+          todoActions,
+        )}
+      `;
     })}
   `;
 }
@@ -682,6 +1151,10 @@ export function renderGroupedEvents(
  * @param index - Event index within the day
  * @param config - Card configuration
  * @param language - Language code for translations
+ * @param isToday - Whether the day is today
+ * @param onEventTap - Optional callback for taps on this event
+ * @param isCompact - Whether the card is in compact (not expanded) mode
+ * @param todoActions - Optional checkbox state and callback of todo items
  * @returns TemplateResult for the event
  */
 export function renderEvent(
@@ -691,6 +1164,9 @@ export function renderEvent(
   config: Types.Config,
   language: string,
   isToday: boolean,
+  onEventTap?: Types.EventTapHandler,
+  isCompact = false,
+  todoActions?: Types.TodoActions,
 ): TemplateResult {
   // Add CSS class for empty days
   const isEmptyDay = Boolean(event._isEmptyDay);
@@ -699,41 +1175,14 @@ export function renderEvent(
   const dayDate = new Date(day.timestamp);
   const isWeekendDay = isWeekend(dayDate);
 
-  // Check if this is a past event (already ended)
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  let isPastEvent = false;
-
-  if (!isEmptyDay) {
-    const isAllDayEvent = !event.start.dateTime;
-
-    if (isAllDayEvent) {
-      // All-day events should NOT be marked as past when they:
-      // 1. Occur today (single-day) OR
-      // 2. End today (multi-day) OR
-      // 3. Span across today (multi-day)
+  // Start, end and multi-day information, parsed once while processing the events
+  const model = FormatUtils.getEventModel(event, config.time_zone);
 
-      // Get end date
-      let endDate = event.end.date ? FormatUtils.parseAllDayDate(event.end.date) : null;
-
-      // Adjust for iCal all-day end date convention (exclusive end date)
-      if (endDate) {
-        const adjustedEndDate = new Date(endDate);
-        adjustedEndDate.setDate(adjustedEndDate.getDate() - 1);
-        endDate = adjustedEndDate;
-      }
-
-      // All-day events are only "past" if today is completely after their end date
-      // If today is the end date or earlier, the event should NOT be greyed out
-      isPastEvent = endDate !== null && today > endDate;
-    } else {
-      // Regular event with time - use end time to determine if it's past
-      const endDateTime = event.end.dateTime ? new Date(event.end.dateTime) : null;
-      isPastEvent = endDateTime !== null && today > endDateTime;
-    }
-  }
+  // Check if this is a past event (already ended), all-day dates are days of the display time zone
+  // All-day events end at midnight after their last day, so they are only "past"
+  // once today is completely after their end date
+  const now = FormatUtils.getZonedNow(config.time_zone);
+  const isPastEvent = !isEmptyDay && FormatUtils.isValidEventModel(model) && now >= model.end;
 
   // Get colors from config based on entity ID and matched config
   const entityColor = isEmptyDay
@@ -748,9 +1197,9 @@ export function renderEvent(
     event,
   );
 
-  // Explicitly check if event_background_opacity is defined and greater than 0
-  const backgroundOpacity =
-    config.event_background_opacity > 0 ? config.event_background_opacity : 0;
+  // Explicitly check if the background opacity (event rule or config) is greater than 0
+  const eventBackgroundOpacity = EventUtils.getEventBackgroundOpacity(event, config);
+  const backgroundOpacity = eventBackgroundOpacity > 0 ? eventBackgroundOpacity : 0;
   const entityAccentBackgroundColor =
     backgroundOpacity > 0
       ? EventUtils.getEntityAccentColorWithOpacity(
@@ -769,15 +1218,10 @@ export function renderEvent(
     config.show_location;
 
   // Check if this is an all-day event
-  const isAllDayEvent = !event.start.dateTime;
+  const isAllDayEvent = model.isAllDay;
 
   // Check if this is a multi-day all-day event
-  const isMultiDayAllDayEvent =
-    isAllDayEvent &&
-    event.time &&
-    (event.time.includes(Localize.getTranslations(language).multiDay) ||
-      event.time.includes(Localize.getTranslations(language).endsTomorrow) ||
-      event.time.includes(Localize.getTranslations(language).endsToday));
+  const isMultiDayAllDayEvent = isAllDayEvent && model.isMultiDay;
 
   // Determine if we should show time for this specific event
   // Hide if:
@@ -789,10 +1233,13 @@ export function renderEvent(
     !(isAllDayEvent && !isMultiDayAllDayEvent && !config.show_single_allday_time) &&
     !isEmptyDay;
 
-  // Calculate countdown if enabled
+  // Calculate countdown if enabled (globally or for the calendar)
+  const showCountdown =
+    EventUtils.getEntitySetting(event._entityId, 'show_countdown', config, event) ??
+    config.show_countdown;
   let countdownStr: string | null = null;
-  if (config.show_countdown && !isEmptyDay && !isPastEvent) {
-    countdownStr = FormatUtils.getCountdownString(event, language);
+  if (showCountdown && !isEmptyDay && !isPastEvent) {
+    countdownStr = FormatUtils.getCountdownString(event, language, config.time_zone);
   }
 
   // Check if event is currently running and calculate progress percentage for progress bar
@@ -802,14 +1249,21 @@ export function renderEvent(
 
   // Format event time and location
   const eventTime = FormatUtils.formatEventTime(event, config, language);
+  const secondaryTime = !isEmptyDay
+    ? FormatUtils.formatSecondaryEventTime(event, config, language)
+    : '';
   const timeColor = event._matchedConfig?.time_color ?? config.time_color;
   const eventLocation =
     event.location && showLocation
       ? FormatUtils.formatLocation(event.location, config.remove_location_country)
       : '';
-  
+
   const locationColor = event._matchedConfig?.location_color ?? config.location_color;
 
+  // Event icon, which replaces the title in compact mode when compact_icon_only is set
+  const eventIcon = EventUtils.getEventIcon(event, config);
+  const isIconOnly = Boolean(eventIcon) && isCompact && config.compact_icon_only;
+
   // Determine event position for styling
   const isFirst = index === 0;
   const isLast = index === day.events.length - 1;
@@ -822,8 +1276,13 @@ export function renderEvent(
     'event-middle': isMiddle,
     'event-last': isLast,
     'past-event': isPastEvent,
+    tappable: Boolean(onEventTap) && !isEmptyDay,
+    'todo-completed': event._todoStatus === Constants.TODO.STATUS_COMPLETED,
+    ...Rules.getRuleClasses(event._ruleStyle),
   };
 
+  const tapListeners = getEventTapListeners(event, onEventTap);
+
   return html`
     <tr>
       ${index === 0
@@ -834,21 +1293,37 @@ export function renderEvent(
               style="position: relative;"
             >
               ${renderDateColumn(dayDate, config, isToday)} ${renderTodayIndicator(config, isToday)}
+              ${renderDayForecast(day.forecast)}
             </td>
           `
         : ''}
       <td
         class=${classMap(eventClasses)}
         style="border-left: var(--calendar-card-line-width-vertical) solid ${entityAccentColor}; background-color: ${entityAccentBackgroundColor};"
+        tabindex=${tapListeners.click ? 0 : nothing}
+        @click=${tapListeners.click}
+        @keydown=${tapListeners.keyDown}
+        @pointerdown=${tapListeners.pointerDown}
+        @pointerup=${tapListeners.pointerUp}
+        @pointercancel=${tapListeners.pointerCancel}
       >
         <div class="event-content">
           <div
             class="event-title ${isEmptyDay ? 'empty-day-title' : ''}"
             style="color: ${entityColor}"
+            title=${isIconOnly ? EventUtils.getEventTitle(event) : nothing}
           >
-            ${EventUtils.getEntityLabel(event._entityId, config, event)
+            ${renderTodoCheckbox(event, language, todoActions)}${EventUtils.getEntityLabel(
+              event._entityId,
+              config,
+              event,
+            )
               ? renderLabel(EventUtils.getEntityLabel(event._entityId, config, event))
-              : ''}${isEmptyDay ? `✓ ${event.summary}` : event.summary}
+              : ''}${renderEventIcon(eventIcon)}${isIconOnly
+              ? nothing
+              : isEmptyDay
+                ? `✓ ${event.summary}`
+                : EventUtils.getEventTitle(event)}
           </div>
           <div class="time-location">
             ${shouldShowTime
@@ -857,6 +1332,9 @@ export function renderEvent(
                     <div class="time-actual">
                       <ha-icon icon="mdi:clock-outline" style="color: ${timeColor};"></ha-icon>
                       <span style="color: ${timeColor};">${eventTime}</span>
+                      ${secondaryTime
+                        ? html`<span class="time-secondary">${secondaryTime}</span>`
+                        : nothing}
                     </div>
                     ${countdownStr
                       ? html`<div class="time-countdown">${countdownStr}</div>`
@@ -892,15 +1370,14 @@ export function renderEvent(
                       </div>
                     `
                   : nothing}
-                  ${eventLocation
-                    ? html`
-                        <div class="location">
-                          <ha-icon icon="mdi:map-marker" style="color: ${locationColor};"></ha-icon>
-                          <span style="color: ${locationColor};">${eventLocation}</span>
-                        </div>
-
-                      `
-                    : ''}
+            ${eventLocation
+              ? html`
+                  <div class="location">
+                    <ha-icon icon="mdi:map-marker" style="color: ${locationColor};"></ha-icon>
+                    <span style="color: ${locationColor};">${eventLocation}</span>
+                  </div>
+                `
+              : ''}
           </div>
         </div>
       </td>
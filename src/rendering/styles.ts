@@ -41,6 +41,7 @@ export function generateCustomPropertiesObject(config: Types.Config): Record<str
     '--calendar-card-date-column-width': `${parseFloat(config.day_font_size) * 1.75}px`,
     '--calendar-card-date-column-vertical-alignment': config.date_vertical_alignment,
     '--calendar-card-event-border-radius': 'calc(var(--ha-card-border-radius, 10px) / 2)',
+    '--calendar-card-timeline-hour-height': config.timeline_hour_height,
     '--ha-ripple-hover-opacity': '0.04',
     '--ha-ripple-hover-color': config.vertical_line_color,
     '--ha-ripple-pressed-opacity': '0.12',
@@ -166,6 +167,101 @@ export const cardStyles = css`
     opacity: var(--dark-primary-opacity);
   }
 
+  .header-container.has-actions {
+    display: flow-root;
+  }
+
+  .header-button {
+    float: right;
+    display: flex;
+    margin: 0 0 8px 8px;
+    padding: 6px;
+    border: none;
+    border-radius: 50%;
+    background: none;
+    color: var(--calendar-card-color-title, var(--primary-text-color));
+    cursor: pointer;
+  }
+
+  .header-button:hover {
+    background-color: var(--secondary-background-color);
+  }
+
+  .header-navigation {
+    float: right;
+    display: flex;
+  }
+
+  .header-navigation .header-button {
+    float: none;
+  }
+
+  .unavailable-badge {
+    float: right;
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    margin: 6px 0 8px 8px;
+    padding: 2px 8px;
+    border-radius: 12px;
+    background-color: var(--secondary-background-color);
+    color: var(--error-color);
+    font-size: 12px;
+    --mdc-icon-size: 16px;
+  }
+
+  /* Calendar legend below the header, each calendar toggles its events */
+  .legend {
+    clear: both;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px 8px;
+    margin: 0 0 8px 8px;
+  }
+
+  .legend-item {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    padding: 2px 8px 2px 4px;
+    border: none;
+    border-radius: 12px;
+    background: none;
+    font-family: inherit;
+    font-size: 12px;
+    cursor: pointer;
+  }
+
+  .legend-item:hover {
+    background-color: var(--secondary-background-color);
+  }
+
+  .legend-color {
+    width: 10px;
+    height: 10px;
+    border-radius: 50%;
+    flex-shrink: 0;
+  }
+
+  .legend-item .calendar-label,
+  .legend-item .label-icon,
+  .legend-item .label-image {
+    margin-right: 0;
+  }
+
+  .legend-item-hidden {
+    opacity: 0.4;
+  }
+
+  .legend-item-hidden .legend-name {
+    text-decoration: line-through;
+  }
+
+  /* Horizontal swipes navigate, vertical swipes keep scrolling */
+  .calendar-card-pro.navigable .content-container {
+    touch-action: pan-y;
+  }
+
   /* ===== WEEK NUMBER & SEPARATOR STYLES ===== */
 
   /* Table structure for week number pills and their separator lines
@@ -339,6 +435,24 @@ export const cardStyles = css`
     color: var(--calendar-card-color-month);
   }
 
+  /* Weather forecast below the date */
+  .day-forecast {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    position: relative;
+    z-index: 2;
+    margin-top: 4px;
+    font-size: var(--calendar-card-font-size-time);
+    line-height: 1.2;
+    color: var(--secondary-text-color);
+    --mdc-icon-size: calc(var(--calendar-card-font-size-day) * 0.8);
+  }
+
+  .forecast-high {
+    color: var(--primary-text-color);
+  }
+
   /* Today indicator styling */
   .today-indicator-container {
     position: absolute;
@@ -426,6 +540,41 @@ export const cardStyles = css`
     opacity: 0.6;
   }
 
+  /* Event rule styling */
+  .event-bold .event-title,
+  .month-event.event-bold,
+  .timeline-event.event-bold .timeline-event-title,
+  .timeline-all-day-event.event-bold {
+    font-weight: bold;
+  }
+
+  .event-strikethrough .event-title,
+  .month-event.event-strikethrough,
+  .timeline-event.event-strikethrough .timeline-event-title,
+  .timeline-all-day-event.event-strikethrough {
+    text-decoration: line-through;
+  }
+
+  /* Todo items */
+  .todo-checkbox {
+    background: none;
+    border: none;
+    padding: 0;
+    margin-right: 4px;
+    color: inherit;
+    cursor: pointer;
+    vertical-align: middle;
+    --mdc-icon-size: var(--calendar-card-font-size-event);
+  }
+
+  .todo-completed .event-title,
+  .month-event.todo-completed,
+  .timeline-event.todo-completed .timeline-event-title,
+  .timeline-all-day-event.todo-completed {
+    text-decoration: line-through;
+    opacity: 0.6;
+  }
+
   /* Event content */
   .event-content {
     display: flex;
@@ -462,6 +611,13 @@ export const cardStyles = css`
     margin-right: 4px;
   }
 
+  /* Event icon styling */
+  .event-icon {
+    --mdc-icon-size: var(--calendar-card-font-size-event);
+    vertical-align: middle;
+    margin-right: 4px;
+  }
+
   /* ===== TIME & LOCATION STYLES ===== */
 
   .time-location {
@@ -500,6 +656,12 @@ export const cardStyles = css`
     flex-shrink: 0;
   }
 
+  .time-secondary {
+    margin-left: 6px;
+    opacity: 0.7;
+    white-space: nowrap;
+  }
+
   .time-countdown {
     text-align: right;
     color: var(--calendar-card-color-time);
@@ -553,6 +715,490 @@ export const cardStyles = css`
     --mdc-icon-size: var(--calendar-card-icon-size-location, 14px);
   }
 
+  /* ===== MONTH VIEW STYLES ===== */
+
+  .month-view {
+    padding-left: 8px;
+  }
+
+  .month-title {
+    font-size: var(--calendar-card-font-size-weekday);
+    font-weight: 500;
+    color: var(--calendar-card-color-weekday);
+    text-transform: uppercase;
+    margin-bottom: 8px;
+  }
+
+  .month-grid {
+    display: grid;
+    gap: 2px;
+  }
+
+  .month-weekday-header {
+    font-size: var(--calendar-card-font-size-month);
+    color: var(--calendar-card-color-weekday);
+    text-align: center;
+    padding-bottom: 4px;
+  }
+
+  .month-week-number {
+    display: flex;
+    align-items: flex-start;
+    justify-content: center;
+    padding: 4px 4px 0 0;
+  }
+
+  .month-day {
+    min-height: calc(var(--calendar-card-font-size-event) * 5);
+    min-width: 0;
+    padding: 2px;
+    border-radius: var(--calendar-card-event-border-radius);
+    border-top: var(--calendar-card-line-width-vertical) solid
+      var(--calendar-card-line-color-vertical);
+    overflow: hidden;
+  }
+
+  .month-day.other-month {
+    opacity: 0.45;
+  }
+
+  .month-day.past-day .month-day-events {
+    opacity: 0.6;
+  }
+
+  .month-day-number {
+    width: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    height: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    line-height: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    margin: 0 auto 2px;
+    text-align: center;
+    font-size: var(--calendar-card-font-size-weekday);
+    font-weight: 500;
+    color: var(--calendar-card-color-day);
+    border-radius: 50%;
+  }
+
+  .month-day.today .month-day-number {
+    background-color: var(--calendar-card-today-indicator-color);
+    color: var(--text-primary-color, #fff);
+  }
+
+  .month-day-events {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+
+  .month-event {
+    display: flex;
+    align-items: center;
+    gap: 3px;
+    font-size: var(--calendar-card-font-size-time);
+    line-height: 1.3;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .month-event-bar {
+    display: block;
+    padding: 0 3px;
+    border-left: 3px solid transparent;
+    border-radius: 3px;
+  }
+
+  .month-event-dot {
+    width: 6px;
+    height: 6px;
+    flex-shrink: 0;
+    border-radius: 50%;
+  }
+
+  .month-event .event-icon,
+  .month-event .todo-checkbox,
+  .timeline-event .event-icon,
+  .timeline-event .todo-checkbox,
+  .timeline-all-day-event .event-icon,
+  .timeline-all-day-event .todo-checkbox {
+    --mdc-icon-size: 1.1em;
+    margin-right: 2px;
+  }
+
+  .month-event-time {
+    flex-shrink: 0;
+    color: var(--calendar-card-color-time);
+  }
+
+  .month-event .label-icon,
+  .month-event .label-image {
+    --mdc-icon-size: var(--calendar-card-font-size-time);
+    height: var(--calendar-card-font-size-time);
+    margin-right: 2px;
+  }
+
+  .month-more {
+    font-size: var(--calendar-card-font-size-time);
+    color: var(--calendar-card-color-time);
+    padding-left: 3px;
+  }
+
+  /* ===== TIMELINE VIEW STYLES ===== */
+
+  .timeline-view {
+    padding-left: 8px;
+  }
+
+  .timeline-grid {
+    display: grid;
+    column-gap: 2px;
+  }
+
+  .timeline-day-header {
+    text-align: center;
+    padding-bottom: 4px;
+  }
+
+  .timeline-weekday {
+    font-size: var(--calendar-card-font-size-month);
+    color: var(--calendar-card-color-weekday);
+    text-transform: uppercase;
+  }
+
+  .timeline-day-number {
+    width: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    height: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    line-height: calc(var(--calendar-card-font-size-weekday) * 1.8);
+    margin: 2px auto 0;
+    font-size: var(--calendar-card-font-size-weekday);
+    font-weight: 500;
+    color: var(--calendar-card-color-day);
+    border-radius: 50%;
+  }
+
+  .timeline-day-header.today .timeline-day-number {
+    background-color: var(--calendar-card-today-indicator-color);
+    color: var(--text-primary-color, #fff);
+  }
+
+  .timeline-all-day-label {
+    font-size: var(--calendar-card-font-size-time);
+    color: var(--calendar-card-color-time);
+    padding: 2px 6px 0 0;
+    text-align: right;
+  }
+
+  .timeline-all-day {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    min-width: 0;
+    padding-bottom: 4px;
+  }
+
+  .timeline-all-day-event {
+    padding: 0 3px;
+    font-size: var(--calendar-card-font-size-time);
+    line-height: 1.4;
+    border-left: 3px solid transparent;
+    border-radius: 3px;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .timeline-hours {
+    padding-right: 6px;
+  }
+
+  .timeline-hour-label {
+    height: var(--calendar-card-timeline-hour-height);
+    font-size: var(--calendar-card-font-size-time);
+    line-height: 1;
+    color: var(--calendar-card-color-time);
+    text-align: right;
+    transform: translateY(-50%);
+  }
+
+  .timeline-hour-label:first-child {
+    transform: none;
+  }
+
+  .timeline-day {
+    position: relative;
+    min-width: 0;
+  }
+
+  .timeline-hour-slot {
+    height: var(--calendar-card-timeline-hour-height);
+    box-sizing: border-box;
+    border-top: var(--calendar-card-line-width-vertical) solid
+      var(--calendar-card-line-color-vertical);
+    opacity: 0.3;
+  }
+
+  .timeline-event {
+    position: absolute;
+    box-sizing: border-box;
+    min-height: 14px;
+    padding: 1px 3px;
+    border: 1px solid var(--calendar-card-background-color, var(--card-background-color));
+    border-left: 3px solid transparent;
+    border-radius: 3px;
+    overflow: hidden;
+    font-size: var(--calendar-card-font-size-time);
+    line-height: 1.3;
+  }
+
+  .timeline-event.running {
+    font-weight: 500;
+  }
+
+  .timeline-event.past-event {
+    opacity: 0.6;
+  }
+
+  .timeline-event-title,
+  .timeline-event-time,
+  .timeline-event-location {
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .timeline-event-time {
+    color: var(--calendar-card-color-time);
+  }
+
+  .timeline-event-location {
+    color: var(--calendar-card-color-location);
+  }
+
+  .timeline-event .label-icon,
+  .timeline-event .label-image,
+  .timeline-all-day-event .label-icon,
+  .timeline-all-day-event .label-image {
+    --mdc-icon-size: var(--calendar-card-font-size-time);
+    height: var(--calendar-card-font-size-time);
+    margin-right: 2px;
+  }
+
+  .timeline-now-line {
+    position: absolute;
+    left: 0;
+    right: 0;
+    height: 2px;
+    z-index: 1;
+    background-color: var(--calendar-card-today-indicator-color);
+    pointer-events: none;
+  }
+
+  .timeline-now-line::before {
+    content: '';
+    position: absolute;
+    left: -4px;
+    top: -3px;
+    width: 8px;
+    height: 8px;
+    border-radius: 50%;
+    background-color: var(--calendar-card-today-indicator-color);
+  }
+
+  /* ===== EVENT DETAILS DIALOG STYLES ===== */
+
+  .tappable {
+    cursor: pointer;
+  }
+
+  .details-backdrop {
+    position: fixed;
+    inset: 0;
+    z-index: 10;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 16px;
+    background-color: rgba(0, 0, 0, 0.4);
+  }
+
+  .details-dialog {
+    box-sizing: border-box;
+    width: 100%;
+    max-width: 420px;
+    max-height: 80vh;
+    overflow-y: auto;
+    padding: 16px;
+    border-top: 4px solid transparent;
+    border-radius: var(--ha-card-border-radius, 12px);
+    background: var(--ha-card-background, var(--card-background-color, #fff));
+    color: var(--primary-text-color);
+    box-shadow: var(--ha-card-box-shadow, 0 4px 16px rgba(0, 0, 0, 0.3));
+  }
+
+  .details-header {
+    display: flex;
+    align-items: flex-start;
+    gap: 8px;
+    margin-bottom: 12px;
+  }
+
+  .details-title {
+    flex: 1;
+    font-size: 20px;
+    font-weight: 500;
+    line-height: 1.3;
+    overflow-wrap: anywhere;
+  }
+
+  .details-close {
+    display: flex;
+    padding: 4px;
+    border: none;
+    border-radius: 50%;
+    background: none;
+    color: var(--secondary-text-color);
+    cursor: pointer;
+  }
+
+  .details-row {
+    display: flex;
+    align-items: flex-start;
+    gap: 12px;
+    padding: 6px 0;
+    font-size: 14px;
+    line-height: 1.4;
+  }
+
+  .details-row ha-icon {
+    --mdc-icon-size: 20px;
+    flex-shrink: 0;
+    color: var(--secondary-text-color);
+  }
+
+  .details-row .label-icon,
+  .details-row .label-image {
+    --mdc-icon-size: 14px;
+    height: 14px;
+    margin-right: 4px;
+    color: inherit;
+  }
+
+  .details-secondary {
+    color: var(--secondary-text-color);
+  }
+
+  .details-description {
+    white-space: pre-line;
+    overflow-wrap: anywhere;
+  }
+
+  .details-description a {
+    color: var(--primary-color);
+  }
+
+  /* ===== EVENT FORM STYLES ===== */
+
+  .form-field {
+    display: flex;
+    flex: 1;
+    flex-direction: column;
+    gap: 4px;
+    margin-bottom: 12px;
+    font-size: 12px;
+    color: var(--secondary-text-color);
+  }
+
+  .form-field input,
+  .form-field select,
+  .form-field textarea {
+    box-sizing: border-box;
+    width: 100%;
+    padding: 8px;
+    font: inherit;
+    font-size: 14px;
+    color: var(--primary-text-color);
+    background-color: var(--secondary-background-color, transparent);
+    border: 1px solid var(--divider-color);
+    border-radius: 4px;
+  }
+
+  .form-field.form-checkbox {
+    flex-direction: row;
+    align-items: center;
+    gap: 8px;
+    font-size: 14px;
+    color: var(--primary-text-color);
+  }
+
+  .form-field.form-checkbox input {
+    width: auto;
+  }
+
+  .form-row {
+    display: flex;
+    gap: 8px;
+  }
+
+  .form-error {
+    margin-bottom: 12px;
+    font-size: 14px;
+    color: var(--error-color);
+  }
+
+  .form-actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+  }
+
+  .form-button {
+    padding: 8px 16px;
+    font: inherit;
+    font-size: 14px;
+    font-weight: 500;
+    color: var(--primary-color);
+    background: none;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  }
+
+  .form-button.primary {
+    color: var(--text-primary-color, #fff);
+    background-color: var(--primary-color);
+  }
+
+  .form-button.danger {
+    color: var(--error-color);
+  }
+
+  .form-button.primary.danger {
+    color: var(--text-primary-color, #fff);
+    background-color: var(--error-color);
+  }
+
+  .form-scope {
+    margin-bottom: 12px;
+  }
+
+  .form-scope .form-field {
+    margin-bottom: 4px;
+  }
+
+  .details-confirm {
+    padding: 12px 0 4px;
+    font-size: 14px;
+    border-top: 1px solid var(--divider-color);
+  }
+
+  .details-dialog .form-actions {
+    margin-top: 8px;
+  }
+
+  .form-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
   /* ===== STATUS MESSAGES ===== */
 
   .loading,
@@ -564,4 +1210,231 @@ export const cardStyles = css`
   .error {
     color: var(--error-color);
   }
+
+  .last-updated {
+    display: flex;
+    align-items: center;
+    justify-content: flex-end;
+    gap: 4px;
+    padding: 4px 16px 8px;
+    font-size: 11px;
+    color: var(--secondary-text-color);
+    opacity: 0.8;
+    --mdc-icon-size: 14px;
+  }
+
+  .config-errors ul {
+    margin: 8px 0 0;
+    padding-left: 20px;
+    font-size: 13px;
+    color: var(--primary-text-color);
+  }
+
+  .config-issue {
+    margin-bottom: 4px;
+  }
+
+  .config-issue.warning {
+    color: var(--secondary-text-color);
+  }
+
+  .config-issue code {
+    font-size: 12px;
+  }
+`;
+
+/**
+ * Styles of the visual card editor
+ */
+export const editorStyles = css`
+  .editor {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+  }
+
+  /* ===== SECTIONS ===== */
+
+  .editor-section {
+    border: 1px solid var(--divider-color);
+    border-radius: 8px;
+  }
+
+  .editor-section summary {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 12px;
+    font-weight: 500;
+    cursor: pointer;
+  }
+
+  .editor-section-content {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    padding: 0 12px 12px;
+  }
+
+  /* ===== FIELDS ===== */
+
+  .editor-field {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    font-size: 12px;
+    color: var(--secondary-text-color);
+  }
+
+  .editor-checkbox {
+    flex-direction: row;
+    align-items: center;
+    gap: 8px;
+    font-size: 14px;
+    color: var(--primary-text-color);
+  }
+
+  .editor input[type='text'],
+  .editor input[type='number'],
+  .editor select,
+  .editor textarea {
+    box-sizing: border-box;
+    width: 100%;
+    padding: 8px;
+    border: 1px solid var(--divider-color);
+    border-radius: 4px;
+    background: var(--card-background-color, var(--ha-card-background));
+    color: var(--primary-text-color);
+    font: inherit;
+    font-size: 14px;
+  }
+
+  .editor-field.invalid input {
+    border-color: var(--error-color);
+  }
+
+  .editor-error {
+    color: var(--error-color);
+    font-size: 12px;
+  }
+
+  .editor-warning {
+    color: var(--warning-color);
+    font-size: 12px;
+  }
+
+  .editor .migration-notice {
+    margin: 0;
+  }
+
+  /* ===== CALENDAR LIST ===== */
+
+  .editor-entity {
+    padding: 8px;
+    border: 1px solid var(--divider-color);
+    border-radius: 4px;
+  }
+
+  .editor-entity.dragging {
+    opacity: 0.5;
+  }
+
+  .editor-entity-row {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+  }
+
+  .editor-entity-handle {
+    cursor: grab;
+    color: var(--secondary-text-color);
+  }
+
+  .editor-entity-overrides {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    padding: 12px 0 4px 28px;
+  }
+
+  .editor-icon-button,
+  .editor-button {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 6px;
+    border: none;
+    border-radius: 4px;
+    background: none;
+    color: var(--primary-text-color);
+    font: inherit;
+    cursor: pointer;
+  }
+
+  .editor-icon-button:hover,
+  .editor-button:hover {
+    background-color: var(--secondary-background-color);
+  }
+
+  .editor-button {
+    color: var(--primary-color);
+  }
+`;
+
+/**
+ * Styles of the upgrade notice shared by the card and the visual editor
+ */
+export const migrationNoticeStyles = css`
+  .migration-notice {
+    display: flex;
+    gap: 12px;
+    margin: 0 16px 8px;
+    padding: 12px;
+    border-radius: 8px;
+    border-left: 4px solid var(--warning-color, #ffa600);
+    background: rgba(255, 166, 0, 0.1);
+    font-size: 13px;
+    color: var(--primary-text-color);
+  }
+
+  .migration-notice ha-icon {
+    color: var(--warning-color, #ffa600);
+    flex-shrink: 0;
+  }
+
+  .migration-notice-content {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .migration-notice ul {
+    margin: 6px 0;
+    padding-left: 20px;
+  }
+
+  .migration-notice code {
+    font-size: 12px;
+  }
+
+  .migration-notice-actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+  }
+
+  .migration-notice-button {
+    padding: 6px 12px;
+    font: inherit;
+    font-weight: 500;
+    color: var(--primary-color);
+    background: none;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  }
+
+  .migration-notice-button.primary {
+    color: var(--text-primary-color, #fff);
+    background-color: var(--primary-color);
+  }
 `;
@@ -0,0 +1,460 @@
+/* eslint-disable import/order */
+/**
+ * Timeline view rendering for Calendar Card Pro
+ *
+ * Renders the week and day views: timed events are placed on a vertical
+ * hour axis with overlapping events side by side, all-day events are shown
+ * in a strip above the grid and a line marks the current time.
+ */
+
+import { TemplateResult, html, nothing } from 'lit';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as FormatUtils from '../utils/format';
+import * as EventUtils from '../utils/events';
+import * as Rules from '../utils/rules';
+import * as Render from './render';
+
+//-----------------------------------------------------------------------------
+// TYPES
+//-----------------------------------------------------------------------------
+
+/**
+ * Timed event clipped to the visible hours of a single day column
+ */
+interface TimelineSegment {
+  event: Types.CalendarEventData;
+  start: number;
+  end: number;
+  column: number;
+  columns: number;
+}
+
+//-----------------------------------------------------------------------------
+// TIMELINE VIEW RENDERING
+//-----------------------------------------------------------------------------
+
+/**
+ * Render the week or day timeline
+ *
+ * @param days - Days with events as returned by groupEventsByDay
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on single events
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the timeline
+ */
+export function renderTimelineView(
+  days: Types.EventsByDay[],
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const translations = Localize.getTranslations(language);
+  const firstDayOfWeek = FormatUtils.getFirstDayOfWeek(config.first_day_of_week, language);
+  const range = EventUtils.getGridViewRange(config, firstDayOfWeek);
+  const { startHour, endHour } = getVisibleHours(config);
+
+  // Build the list of day columns
+  const dates: Date[] = [];
+  if (range) {
+    for (let i = 0; i < range.days; i++) {
+      const date = new Date(range.start);
+      date.setDate(range.start.getDate() + i);
+      dates.push(date);
+    }
+  }
+
+  // Multi-day events are grouped on a single day, so place them by overlap instead
+  const events = days.flatMap((day) => day.events).filter((event) => !event._isEmptyDay);
+  const allDayEvents = events.filter(
+    (event) => FormatUtils.getEventModel(event, config.time_zone).isAllDay,
+  );
+  const timedEvents = events.filter(
+    (event) => !FormatUtils.getEventModel(event, config.time_zone).isAllDay,
+  );
+
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const gridStyle = {
+    gridTemplateColumns: `auto repeat(${dates.length}, minmax(0, 1fr))`,
+  };
+
+  const allDayCells = dates.map((date) =>
+    allDayEvents.filter((event) => EventUtils.isEventOnDate(event, date, config.time_zone)),
+  );
+  const hasAllDayEvents = allDayCells.some((cell) => cell.length > 0);
+
+  return html`
+    <div class="timeline-view">
+      <div class="timeline-grid" style=${styleMap(gridStyle)}>
+        <div class="timeline-corner"></div>
+        ${dates.map((date) => renderDayHeader(date, translations, config.time_zone))}
+        ${hasAllDayEvents
+          ? html`
+              <div class="timeline-all-day-label">${translations.allDay}</div>
+              ${allDayCells.map(
+                (cellEvents) => html`
+                  <div class="timeline-all-day">
+                    ${cellEvents.map((event) =>
+                      renderAllDayEvent(event, config, language, onEventTap, todoActions),
+                    )}
+                  </div>
+                `,
+              )}
+            `
+          : nothing}
+        <div class="timeline-hours">
+          ${hours.map(
+            (hour) => html`
+              <div class="timeline-hour-label">
+                ${FormatUtils.formatTime(new Date(2000, 0, 1, hour), config.time_24h)}
+              </div>
+            `,
+          )}
+        </div>
+        ${dates.map((date) =>
+          renderDayColumn(
+            date,
+            timedEvents,
+            hours.length,
+            startHour,
+            endHour,
+            config,
+            language,
+            onEventTap,
+            todoActions,
+          ),
+        )}
+      </div>
+    </div>
+  `;
+}
+
+//-----------------------------------------------------------------------------
+// TIMELINE VIEW HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the visible hour range, clamped to a valid range of at least one hour
+ *
+ * @param config - Card configuration
+ * @returns Start hour (inclusive) and end hour (exclusive)
+ */
+function getVisibleHours(config: Types.Config): { startHour: number; endHour: number } {
+  const startHour = Math.min(Math.max(Math.floor(config.timeline_start_hour) || 0, 0), 23);
+  const endHour = Math.min(Math.max(Math.ceil(config.timeline_end_hour) || 24, startHour + 1), 24);
+  return { startHour, endHour };
+}
+
+/**
+ * Render the header cell of a day column
+ *
+ * @param date - Date of the column
+ * @param translations - Translations for the current language
+ * @param timeZone - Display time zone defining today
+ * @returns TemplateResult for the header cell
+ */
+function renderDayHeader(
+  date: Date,
+  translations: Types.Translations,
+  timeZone?: string,
+): TemplateResult {
+  const headerClasses = {
+    'timeline-day-header': true,
+    today: date.toDateString() === FormatUtils.getZonedNow(timeZone).toDateString(),
+    weekend: Render.isWeekend(date),
+  };
+
+  return html`
+    <div class=${classMap(headerClasses)}>
+      <div class="timeline-weekday">${translations.daysOfWeek[date.getDay()]}</div>
+      <div class="timeline-day-number">${date.getDate()}</div>
+    </div>
+  `;
+}
+
+/**
+ * Render a day column with its hour lines, timed events and the current time line
+ *
+ * @param date - Date of the column
+ * @param events - All timed events of the view
+ * @param hourCount - Number of visible hours
+ * @param startHour - First visible hour
+ * @param endHour - Hour at which the visible range ends
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on single events
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the day column
+ */
+function renderDayColumn(
+  date: Date,
+  events: Types.CalendarEventData[],
+  hourCount: number,
+  startHour: number,
+  endHour: number,
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const rangeStart = new Date(date.getFullYear(), date.getMonth(), date.getDate(), startHour);
+  const rangeEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate(), endHour);
+  const rangeMs = rangeEnd.getTime() - rangeStart.getTime();
+
+  const segments = layoutSegments(
+    events,
+    rangeStart.getTime(),
+    rangeEnd.getTime(),
+    config.time_zone,
+  );
+
+  // The range is on the wall clock of the display time zone, and so is the current time line
+  const now = FormatUtils.getZonedNow(config.time_zone).getTime();
+  const showNowLine = now >= rangeStart.getTime() && now < rangeEnd.getTime();
+
+  return html`
+    <div
+      class="timeline-day"
+      style=${styleMap({
+        height: `calc(var(--calendar-card-timeline-hour-height) * ${hourCount})`,
+      })}
+    >
+      ${Array.from({ length: hourCount }, () => html`<div class="timeline-hour-slot"></div>`)}
+      ${segments.map((segment) =>
+        renderTimedEvent(
+          segment,
+          rangeStart.getTime(),
+          rangeMs,
+          config,
+          language,
+          onEventTap,
+          todoActions,
+        ),
+      )}
+      ${showNowLine
+        ? html`<div
+            class="timeline-now-line"
+            style=${styleMap({ top: `${((now - rangeStart.getTime()) / rangeMs) * 100}%` })}
+          ></div>`
+        : nothing}
+    </div>
+  `;
+}
+
+/**
+ * Clip timed events to a day column and assign side by side columns to overlapping events
+ * Events that overlap directly or through other events form a cluster sharing the width.
+ * Short events, like todo items due at a time, are extended to a minimum height.
+ *
+ * @param events - Timed events to place
+ * @param rangeStart - Start of the visible range in milliseconds
+ * @param rangeEnd - End of the visible range in milliseconds
+ * @param timeZone - Display time zone of the range
+ * @returns Positioned segments for the day column
+ */
+function layoutSegments(
+  events: Types.CalendarEventData[],
+  rangeStart: number,
+  rangeEnd: number,
+  timeZone?: string,
+): TimelineSegment[] {
+  const segments: TimelineSegment[] = events
+    .map((event) => ({
+      event,
+      start: Math.max(
+        FormatUtils.parseDateTime(event.start.dateTime!, timeZone).getTime(),
+        rangeStart,
+      ),
+      end: Math.min(
+        Math.max(
+          FormatUtils.parseDateTime(event.end.dateTime!, timeZone).getTime(),
+          FormatUtils.parseDateTime(event.start.dateTime!, timeZone).getTime() +
+            Constants.UI.TIMELINE_MIN_EVENT_MINUTES * 60000,
+        ),
+        rangeEnd,
+      ),
+      column: 0,
+      columns: 1,
+    }))
+    .filter((segment) => segment.end > segment.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let cluster: TimelineSegment[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const closeCluster = () => {
+    cluster.forEach((segment) => (segment.columns = columnEnds.length));
+    cluster = [];
+    columnEnds = [];
+  };
+
+  segments.forEach((segment) => {
+    if (segment.start >= clusterEnd) {
+      closeCluster();
+    }
+
+    // Reuse the first column that is free at this segment's start
+    let column = columnEnds.findIndex((end) => end <= segment.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(segment.end);
+    } else {
+      columnEnds[column] = segment.end;
+    }
+
+    segment.column = column;
+    cluster.push(segment);
+    clusterEnd = Math.max(clusterEnd, segment.end);
+  });
+  closeCluster();
+
+  return segments;
+}
+
+/**
+ * Render a positioned timed event inside a day column
+ *
+ * @param segment - Positioned event segment
+ * @param rangeStart - Start of the visible range in milliseconds
+ * @param rangeMs - Length of the visible range in milliseconds
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on the event
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the event block
+ */
+function renderTimedEvent(
+  segment: TimelineSegment,
+  rangeStart: number,
+  rangeMs: number,
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const { event } = segment;
+  const startDate = FormatUtils.parseDateTime(event.start.dateTime!, config.time_zone);
+  const endDate = FormatUtils.parseDateTime(event.end.dateTime!, config.time_zone);
+  const isRunning = EventUtils.isEventCurrentlyRunning(event);
+  const label = EventUtils.getEntityLabel(event._entityId, config, event);
+  const icon = Render.renderEventIcon(EventUtils.getEventIcon(event, config));
+  const checkbox = Render.renderTodoCheckbox(event, language, todoActions);
+  const tapListeners = Render.getEventTapListeners(event, onEventTap);
+
+  const eventClasses = {
+    'timeline-event': true,
+    tappable: Boolean(tapListeners.click),
+    running: isRunning,
+    'past-event': !isRunning && new Date(event.end.dateTime!).getTime() < Date.now(),
+    'todo-completed': event._todoStatus === Constants.TODO.STATUS_COMPLETED,
+    ...Rules.getRuleClasses(event._ruleStyle),
+  };
+
+  const eventStyle = {
+    top: `${((segment.start - rangeStart) / rangeMs) * 100}%`,
+    height: `${((segment.end - segment.start) / rangeMs) * 100}%`,
+    left: `${(segment.column / segment.columns) * 100}%`,
+    width: `${100 / segment.columns}%`,
+    color: EventUtils.getEntityColor(event._entityId, config, event),
+    borderLeftColor: EventUtils.getEntityAccentColorWithOpacity(
+      event._entityId,
+      config,
+      undefined,
+      event,
+    ),
+    backgroundColor: EventUtils.getEntityAccentColorWithOpacity(
+      event._entityId,
+      config,
+      EventUtils.getEventBackgroundOpacity(event, config) || 20,
+      event,
+    ),
+  };
+
+  const timeText = `${FormatUtils.formatTime(startDate, config.time_24h)} - ${FormatUtils.formatTime(endDate, config.time_24h)}`;
+
+  return html`
+    <div
+      class=${classMap(eventClasses)}
+      style=${styleMap(eventStyle)}
+      title="${EventUtils.getEventTitle(event)} (${timeText})"
+      tabindex=${tapListeners.click ? 0 : nothing}
+      @click=${tapListeners.click}
+      @keydown=${tapListeners.keyDown}
+      @pointerdown=${tapListeners.pointerDown}
+      @pointerup=${tapListeners.pointerUp}
+      @pointercancel=${tapListeners.pointerCancel}
+    >
+      <div class="timeline-event-title">
+        ${checkbox}${Render.renderLabel(label)}${icon}${EventUtils.getEventTitle(event)}
+      </div>
+      ${config.show_time ? html`<div class="timeline-event-time">${timeText}</div>` : nothing}
+      ${config.show_location && event.location
+        ? html`<div class="timeline-event-location">${event.location}</div>`
+        : nothing}
+    </div>
+  `;
+}
+
+/**
+ * Render an all-day event inside the all-day strip
+ *
+ * @param event - All-day event to render
+ * @param config - Card configuration
+ * @param language - Language code for translations
+ * @param onEventTap - Optional callback for taps on the event
+ * @param todoActions - Optional checkbox state and callback of todo items
+ * @returns TemplateResult for the all-day event
+ */
+function renderAllDayEvent(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+  language: string,
+  onEventTap?: Types.EventTapHandler,
+  todoActions?: Types.TodoActions,
+): TemplateResult {
+  const label = EventUtils.getEntityLabel(event._entityId, config, event);
+  const icon = Render.renderEventIcon(EventUtils.getEventIcon(event, config));
+  const checkbox = Render.renderTodoCheckbox(event, language, todoActions);
+  const tapListeners = Render.getEventTapListeners(event, onEventTap);
+
+  return html`
+    <div
+      class=${classMap({
+        'timeline-all-day-event': true,
+        tappable: Boolean(tapListeners.click),
+        'todo-completed': event._todoStatus === Constants.TODO.STATUS_COMPLETED,
+        ...Rules.getRuleClasses(event._ruleStyle),
+      })}
+      style=${styleMap({
+        color: EventUtils.getEntityColor(event._entityId, config, event),
+        borderLeftColor: EventUtils.getEntityAccentColorWithOpacity(
+          event._entityId,
+          config,
+          undefined,
+          event,
+        ),
+        backgroundColor: EventUtils.getEntityAccentColorWithOpacity(
+          event._entityId,
+          config,
+          EventUtils.getEventBackgroundOpacity(event, config) || 20,
+          event,
+        ),
+      })}
+      title=${EventUtils.getEventTitle(event)}
+      tabindex=${tapListeners.click ? 0 : nothing}
+      @click=${tapListeners.click}
+      @keydown=${tapListeners.keyDown}
+      @pointerdown=${tapListeners.pointerDown}
+      @pointerup=${tapListeners.pointerUp}
+      @pointercancel=${tapListeners.pointerCancel}
+    >
+      ${checkbox}${Render.renderLabel(label)}${icon}${EventUtils.getEventTitle(event)}
+    </div>
+  `;
+}
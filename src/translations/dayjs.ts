@@ -44,11 +44,12 @@ import 'dayjs/locale/zh-tw';
  *
  * @param date Target date
  * @param locale Language code
+ * @param now Current time the distance is measured from
  * @returns Formatted relative time string
  */
-export function getRelativeTimeString(date: Date, locale: string): string {
+export function getRelativeTimeString(date: Date, locale: string, now = new Date()): string {
   const mappedLocale = mapLocale(locale);
-  return dayjs(date).locale(mappedLocale).fromNow();
+  return dayjs(date).locale(mappedLocale).from(now);
 }
 
 /**
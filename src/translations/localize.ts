@@ -156,6 +156,7 @@ export function getTranslations(language: string): Types.Translations {
 
 /**
  * Get a specific translation string from the provided language
+ * Editor translations are grouped separately and read from getTranslations
  *
  * @param language - Language code
  * @param key - Translation key
@@ -164,7 +165,7 @@ export function getTranslations(language: string): Types.Translations {
  */
 export function translate(
   language: string,
-  key: keyof Types.Translations,
+  key: Exclude<keyof Types.Translations, 'editor'>,
   fallback?: string | string[],
 ): string | string[] {
   const translations = getTranslations(language);
@@ -0,0 +1,94 @@
+/* eslint-disable import/order */
+/**
+ * Birthday calendars for Calendar Card Pro
+ *
+ * Detects the birth year of events from calendars configured with
+ * `type: birthdays` and formats their titles with the age reached.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as Logger from './logger';
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the name, birth year and age of a birthday event
+ * The birth year is taken from the summary with the calendar's birthday_pattern
+ * (removing the match from the name) or else from a year in the description
+ *
+ * @param event - Event of a birthdays calendar
+ * @param entityConfig - Configuration of the calendar
+ * @returns Birthday information, without age if no birth year was found
+ */
+export function getBirthdayInfo(
+  event: Types.CalendarEventData,
+  entityConfig: Types.EntityConfig,
+): Types.BirthdayInfo {
+  const summary = event.summary || '';
+  const summaryMatch = matchPattern(
+    summary,
+    entityConfig.birthday_pattern || Constants.BIRTHDAYS.DEFAULT_PATTERN,
+  );
+  const yearText = summaryMatch
+    ? (summaryMatch[1] ?? summaryMatch[0])
+    : matchPattern(event.description || '', Constants.BIRTHDAYS.DESCRIPTION_YEAR_PATTERN)?.[0];
+
+  const name = (summaryMatch ? summary.replace(summaryMatch[0], '').trim() : summary) || summary;
+
+  // Age reached in the year of this occurrence
+  const birthYear = Number(yearText);
+  const eventYear = Number((event.start.date || event.start.dateTime || '').slice(0, 4));
+  const age = eventYear - birthYear;
+
+  if (!yearText || !Number.isInteger(birthYear) || !Number.isInteger(age) || age < 0) {
+    return { name };
+  }
+
+  return { name, birthYear, age };
+}
+
+/**
+ * Format the title of a birthday event
+ * Templates can use {name}, {age} and {year}; without a known age the name is shown
+ *
+ * @param birthday - Birthday information of the event
+ * @param template - Template of the calendar (defaults to the translated "{name} turns {age}")
+ * @param language - Language code for translations
+ * @returns Title to display
+ */
+export function formatBirthdayTitle(
+  birthday: Types.BirthdayInfo,
+  template: string | undefined,
+  language: string,
+): string {
+  if (birthday.age === undefined) return birthday.name;
+
+  return (template || Localize.getTranslations(language).birthdayTemplate)
+    .replace(/\{name\}/g, birthday.name)
+    .replace(/\{age\}/g, String(birthday.age))
+    .replace(/\{year\}/g, String(birthday.birthYear));
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Match a text against a pattern, invalid patterns are logged and match nothing
+ *
+ * @param value - Text to search
+ * @param pattern - Regular expression source
+ * @returns Match or null
+ */
+function matchPattern(value: string, pattern: string): RegExpExecArray | null {
+  try {
+    return new RegExp(pattern, 'i').exec(value);
+  } catch (error) {
+    Logger.warn(`Invalid birthday pattern "${pattern}":`, error);
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+/* eslint-disable import/order */
+/**
+ * Live update detection for Calendar Card Pro
+ *
+ * Compares the states of the configured entities between two hass objects,
+ * which Home Assistant pushes on every state change, and reports which
+ * calendars changed so the card can refetch only those calendars instead
+ * of waiting for the refresh timer.
+ */
+
+import * as Types from '../config/types';
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the configured entities whose state changed between two hass updates
+ * Updates that only refresh last_updated without touching the state or its
+ * attributes are ignored. Entities that just became available count as changed.
+ *
+ * @param previousHass - Previous Home Assistant instance (undefined on the first update)
+ * @param hass - Current Home Assistant instance
+ * @param entityIds - Currently configured entity IDs
+ * @returns Changed entity IDs
+ */
+export function getChangedEntityIds(
+  previousHass: Types.Hass | undefined,
+  hass: Types.Hass | undefined,
+  entityIds: string[],
+): string[] {
+  if (!previousHass || !hass) return [];
+
+  return entityIds.filter((entityId) => {
+    const oldState = previousHass.states[entityId];
+    const newState = hass.states[entityId];
+
+    // Unchanged entities keep their state object
+    if (oldState === newState) return false;
+    if (!oldState || !newState) return Boolean(newState);
+
+    return (
+      oldState.state !== newState.state ||
+      oldState.last_changed !== newState.last_changed ||
+      JSON.stringify(oldState.attributes) !== JSON.stringify(newState.attributes)
+    );
+  });
+}
@@ -11,6 +11,10 @@ import * as FormatUtils from './format';
 import * as Logger from './logger';
 import * as Constants from '../config/constants';
 import * as Helpers from './helpers';
+import * as EventStore from './storage';
+import * as Sharing from './sharing';
+import * as Rules from './rules';
+import * as Birthdays from './birthdays';
 
 //-----------------------------------------------------------------------------
 // HIGH-LEVEL API FUNCTIONS
@@ -18,56 +22,109 @@ import * as Helpers from './helpers';
 
 /**
  * Fetch calendar event data with caching support
- * This function handles both API fetching and cache retrieval
+ * Each calendar is taken from the event store while its stored range is fresh
+ * and fetched from the API otherwise
  *
  * @param hass Home Assistant instance
  * @param config Calendar card configuration
- * @param instanceId Component instance ID for caching
  * @param force Whether to force API refresh
- * @returns Promise resolving to calendar event data array
+ * @param entityIds Optional subset of entities to refetch, other entities reuse their stored events
+ * @param requesterId ID of the requesting card, which isn't notified about its own fetches
+ * @returns Promise resolving to calendar event data and the calendars that could not be fetched
  */
 export async function fetchEventData(
   hass: Types.Hass,
   config: Types.Config,
-  instanceId: string,
   force = false,
-): Promise<Types.CalendarEventData[]> {
-  // Generate cache key based on configuration
-  const cacheKey = getBaseCacheKey(
-    instanceId,
-    config.entities,
-    config.days_to_show,
-    config.show_past_events,
-    config.start_date,
-    config.filter_duplicates, // Include filter_duplicates in cache key
-  );
-
-  // Try cache first
-  const isManualPageReload = isManualPageLoad();
-  if (!force) {
-    const cachedEvents = getCachedEvents(cacheKey, config, isManualPageReload);
-    if (cachedEvents) {
-      Logger.info(`Using ${cachedEvents.length} events from cache`);
-      return [...cachedEvents];
-    }
-  }
+  entityIds?: string[],
+  requesterId = '',
+): Promise<Types.EventDataResult> {
+  // Only apply short cache duration if refresh_on_navigate is enabled
+  // and this is a manual page reload/navigation
+  const maxAge = force
+    ? 0
+    : isManualPageLoad() && config.refresh_on_navigate
+      ? Constants.CACHE.MANUAL_RELOAD_CACHE_DURATION_SECONDS * 1000
+      : // Events fetched before the current aligned refresh period are due for a refresh
+        Date.now() - Sharing.getRefreshPeriodStart(getCacheDuration(config));
 
-  // Fetch from API if needed
-  Logger.info('Fetching events from API');
   const entities = config.entities.map((e) =>
     typeof e === 'string' ? { entity: e, color: 'var(--primary-text-color)' } : e,
   );
 
-  const timeWindow = getTimeWindow(config.days_to_show, config.start_date);
-  const fetchedEvents = await fetchEvents(hass, entities, timeWindow);
+  const timeWindow = getViewTimeWindow(config);
+  const { events, failedEntities, timestamp } = await fetchEvents(
+    hass,
+    entities,
+    timeWindow,
+    entityIds,
+    maxAge,
+    getCacheDuration(config) * Constants.CACHE.CACHE_EXPIRY_MULTIPLIER,
+    requesterId,
+  );
 
   // Process events according to configuration rules
-  const processedEvents = processEvents(fetchedEvents, config);
+  return { events: processEvents(events, config), failedEntities, timestamp };
+}
 
-  // Cache and return the processed results
-  cacheEvents(cacheKey, processedEvents);
+/**
+ * Get the stored events of a configuration, even if they are outdated
+ * Used to show the last known events while fresh data is fetched in the background
+ *
+ * @param config Calendar card configuration
+ * @returns Stored events and the fetch time of the oldest calendar, or null if nothing is stored
+ */
+export async function getStaleEventData(config: Types.Config): Promise<Types.CacheEntry | null> {
+  const timeWindow = getViewTimeWindow(config);
+  const entityIds = [
+    ...new Set(config.entities.map((e) => (typeof e === 'string' ? e : e.entity))),
+  ];
+
+  const stored = (
+    await Promise.all(
+      entityIds.map((entityId) => EventStore.getEntityEvents(entityId, timeWindow, true)),
+    )
+  ).filter((entry): entry is Types.CacheEntry => entry !== null);
+  if (!stored.length) return null;
+
+  return {
+    events: processEvents(
+      stored.flatMap((entry) => entry.events),
+      config,
+    ),
+    timestamp: Math.min(...stored.map((entry) => entry.timestamp)),
+  };
+}
 
-  return processedEvents;
+/**
+ * Fetch the windows before and after a navigation offset in the background
+ * Windows that are still cached are not fetched again
+ *
+ * @param hass Home Assistant instance
+ * @param config Calendar card configuration
+ * @param offset Navigation offset of the currently shown window
+ * @param requesterId ID of the requesting card
+ * @returns Promise resolving once both windows are cached
+ */
+export async function preloadAdjacentEventData(
+  hass: Types.Hass,
+  config: Types.Config,
+  offset: number,
+  requesterId = '',
+): Promise<void> {
+  for (const adjacentOffset of [offset - 1, offset + 1]) {
+    try {
+      await fetchEventData(
+        hass,
+        getNavigatedConfig(config, adjacentOffset),
+        false,
+        undefined,
+        requesterId,
+      );
+    } catch (error) {
+      Logger.warn(`Failed to preload events for navigation offset ${adjacentOffset}:`, error);
+    }
+  }
 }
 
 /**
@@ -86,42 +143,29 @@ export function groupEventsByDay(
   language: string,
 ): Types.EventsByDay[] {
   const eventsByDay: Record<string, Types.EventsByDay> = {};
+  const firstDayOfWeek = FormatUtils.getFirstDayOfWeek(config.first_day_of_week, language);
+
+  // Grid views (month, week, day) group every day of their fixed range, starting at the first cell
+  const gridRange = getGridViewRange(config, firstDayOfWeek);
 
   // Use reference date from configuration instead of hardcoded "today"
-  const referenceDate = getStartDateReference(config);
+  const referenceDate = gridRange ? gridRange.start : getStartDateReference(config);
   const referenceStart = new Date(referenceDate);
   const referenceEnd = new Date(referenceStart);
   referenceEnd.setHours(23, 59, 59, 999);
 
   // Current time is still needed for past event filtering
-  const now = new Date();
+  // All dates are compared on the wall clock of the display time zone
+  const now = FormatUtils.getZonedNow(config.time_zone);
 
   // Process events into initial days structure
   const upcomingEvents = events.filter((event) => {
     if (!event?.start || !event?.end) return false;
 
-    const isAllDayEvent = !event.start.dateTime;
+    const bounds = getEventDayBounds(event, config.time_zone);
+    if (!bounds) return false;
 
-    let startDate: Date | null;
-    let endDate: Date | null;
-
-    if (isAllDayEvent) {
-      // Use special parsing for all-day events that preserves correct day
-      startDate = event.start.date ? FormatUtils.parseAllDayDate(event.start.date) : null;
-      endDate = event.end.date ? FormatUtils.parseAllDayDate(event.end.date) : null;
-
-      // Adjust end date for all-day events (which is exclusive in iCal format)
-      if (endDate) {
-        const adjustedEndDate = new Date(endDate);
-        adjustedEndDate.setDate(adjustedEndDate.getDate() - 1);
-        endDate = adjustedEndDate;
-      }
-    } else {
-      startDate = event.start.dateTime ? new Date(event.start.dateTime) : null;
-      endDate = event.end.dateTime ? new Date(event.end.dateTime) : null;
-    }
-
-    if (!startDate || !endDate) return false;
+    const { startDate, endDate, isAllDayEvent } = bounds;
 
     // Use reference date instead of today for event filtering
     const isEventOnOrAfterReference = startDate >= referenceStart && startDate <= referenceEnd;
@@ -152,27 +196,10 @@ export function groupEventsByDay(
 
   // Process events into days
   upcomingEvents.forEach((event) => {
-    const isAllDayEvent = !event.start.dateTime;
-
-    let startDate: Date | null;
-    let endDate: Date | null;
-
-    if (isAllDayEvent) {
-      startDate = event.start.date ? FormatUtils.parseAllDayDate(event.start.date) : null;
-      endDate = event.end.date ? FormatUtils.parseAllDayDate(event.end.date) : null;
-
-      // For all-day events, end date is exclusive in iCal format
-      if (endDate) {
-        const adjustedEndDate = new Date(endDate);
-        adjustedEndDate.setDate(adjustedEndDate.getDate() - 1);
-        endDate = adjustedEndDate;
-      }
-    } else {
-      startDate = event.start.dateTime ? new Date(event.start.dateTime) : null;
-      endDate = event.end.dateTime ? new Date(event.end.dateTime) : null;
-    }
+    const bounds = getEventDayBounds(event, config.time_zone);
+    if (!bounds) return;
 
-    if (!startDate || !endDate) return;
+    const { startDate, endDate, model } = bounds;
 
     // Determine which day to display this event on, using reference date instead of today
     let displayDate: Date;
@@ -212,18 +239,30 @@ export function groupEventsByDay(
       location: config.show_location
         ? FormatUtils.formatLocation(event.location || '', config.remove_location_country)
         : '',
+      description: event.description,
+      uid: event.uid,
+      recurrence_id: event.recurrence_id,
+      rrule: event.rrule,
       start: event.start,
       end: event.end,
       _entityId: event._entityId,
       _entityLabel: getEntityLabel(event._entityId, config, event),
       _matchedConfig: event._matchedConfig,
+      _ruleStyle: event._ruleStyle,
+      _model: model,
+      _todoStatus: event._todoStatus,
+      _birthday: event._birthday && {
+        ...event._birthday,
+        title: Birthdays.formatBirthdayTitle(
+          event._birthday,
+          event._matchedConfig?.birthday_template,
+          language,
+        ),
+      },
       _isEmptyDay: event._isEmptyDay,
     });
   });
 
-  // After creating eventsByDay, add week/month metadata
-  const firstDayOfWeek = FormatUtils.getFirstDayOfWeek(config.first_day_of_week, language);
-
   // Add week and month metadata to each day
   Object.values(eventsByDay).forEach((day) => {
     const dayDate = new Date(day.timestamp);
@@ -244,26 +283,20 @@ export function groupEventsByDay(
   // Sort events within each day
   Object.values(eventsByDay).forEach((day) => {
     day.events.sort((a, b) => {
-      const aIsAllDay = !a.start.dateTime;
-      const bIsAllDay = !b.start.dateTime;
+      // Birthdays are listed at the top of the day
+      if (Boolean(a._birthday) !== Boolean(b._birthday)) return a._birthday ? -1 : 1;
+
+      const aModel = FormatUtils.getEventModel(a, config.time_zone);
+      const bModel = FormatUtils.getEventModel(b, config.time_zone);
+      const aIsAllDay = aModel.isAllDay;
+      const bIsAllDay = bModel.isAllDay;
 
       // All-day events should appear before timed events
       if (aIsAllDay && !bIsAllDay) return -1;
       if (!aIsAllDay && bIsAllDay) return 1;
 
-      let aStart, bStart;
-
-      if (aIsAllDay && a.start.date) {
-        aStart = FormatUtils.parseAllDayDate(a.start.date).getTime();
-      } else {
-        aStart = a.start.dateTime ? new Date(a.start.dateTime).getTime() : 0;
-      }
-
-      if (bIsAllDay && b.start.date) {
-        bStart = FormatUtils.parseAllDayDate(b.start.date).getTime();
-      } else {
-        bStart = b.start.dateTime ? new Date(b.start.dateTime).getTime() : 0;
-      }
+      const aStart = aModel.start.getTime();
+      const bStart = bModel.start.getTime();
 
       // If both events are all-day events with the same start date, check entity order first
       if (aIsAllDay && bIsAllDay && aStart === bStart) {
@@ -286,9 +319,12 @@ export function groupEventsByDay(
   });
 
   // Sort days and determine effective days to show based on mode
-  const effectiveDaysToShow = isExpanded
-    ? config.days_to_show
-    : config.compact_days_to_show || config.days_to_show;
+  // Grid views always show their full range and ignore compact mode limits
+  const effectiveDaysToShow = gridRange
+    ? gridRange.days
+    : isExpanded
+      ? config.days_to_show
+      : config.compact_days_to_show || config.days_to_show;
 
   // Get days in chronological order limited to effective days to show
   let days = Object.values(eventsByDay)
@@ -296,8 +332,8 @@ export function groupEventsByDay(
     .slice(0, effectiveDaysToShow || 3);
 
   // Apply entity-specific event limits first (pre-filtering)
-  // This happens before the global max_events_to_show limit is applied
-  if (!isExpanded) {
+  // This happens before the global compact_events_to_show limit is applied
+  if (!isExpanded && !gridRange) {
     // Create a map to track how many events we've seen from each entity
     const entityEventCounts = new Map<string, number>();
 
@@ -333,11 +369,9 @@ export function groupEventsByDay(
           continue;
         }
 
-        // Get entity-specific max_events_to_show (if set)
+        // Get entity-specific compact_events_to_show (if set)
         const entityMaxEvents =
-          typeof entityConfig === 'object'
-            ? (entityConfig.compact_events_to_show ?? entityConfig.max_events_to_show)
-            : undefined;
+          typeof entityConfig === 'object' ? entityConfig.compact_events_to_show : undefined;
 
         // If no entity-specific limit, include the event
         if (entityMaxEvents === undefined) {
@@ -363,10 +397,8 @@ export function groupEventsByDay(
   }
 
   // Apply events limit if configured and not expanded (compact mode event limiting)
-  // Consider both max_events_to_show (legacy) and compact_events_to_show (new)
-  if (!isExpanded) {
-    // Get the effective max events setting (compact_events_to_show takes precedence over max_events_to_show)
-    const maxEvents = config.compact_events_to_show ?? config.max_events_to_show;
+  if (!isExpanded && !gridRange) {
+    const maxEvents = config.compact_events_to_show;
 
     if (maxEvents !== undefined) {
       let filteredDays: Types.EventsByDay[] = [];
@@ -447,7 +479,8 @@ export function groupEventsByDay(
 
   // Only add empty days AFTER we've filtered events in compact mode
   // This ensures empty days are only added for days that would actually be shown
-  if (config.show_empty_days) {
+  // Grid views render their own empty cells
+  if (config.show_empty_days && !gridRange) {
     const translations = Localize.getTranslations(language);
 
     // Always start from the configured reference date
@@ -475,9 +508,7 @@ export function groupEventsByDay(
     const allDays: Types.EventsByDay[] = [...days];
 
     // Calculate the number of days between start and end dates
-    const dayDiff = Math.floor(
-      (endDateForEmptyDays.getTime() - startDateForEmptyDays.getTime()) / (24 * 60 * 60 * 1000),
-    );
+    const dayDiff = FormatUtils.getDayDifference(startDateForEmptyDays, endDateForEmptyDays);
 
     // Generate empty days for any missing dates in the range
     for (let i = 0; i <= dayDiff; i++) {
@@ -524,6 +555,29 @@ export function groupEventsByDay(
   return days.slice(0, effectiveDaysToShow);
 }
 
+/**
+ * Get the first and last moment of an event on the display time zone's wall clock
+ * All-day events end on their last day instead of the exclusive iCal end date
+ *
+ * @param event - Event to measure
+ * @param timeZone - Display time zone
+ * @returns Start, inclusive end and time model, or null if the dates are invalid
+ */
+function getEventDayBounds(
+  event: Types.CalendarEventData,
+  timeZone?: string,
+): { startDate: Date; endDate: Date; isAllDayEvent: boolean; model: Types.EventModel } | null {
+  const model = FormatUtils.getEventModel(event, timeZone);
+  if (!FormatUtils.isValidEventModel(model)) return null;
+
+  return {
+    startDate: model.start,
+    endDate: model.isAllDay ? FormatUtils.getLocalDayStart(model.end, -1) : model.end,
+    isAllDayEvent: model.isAllDay,
+    model,
+  };
+}
+
 /**
  * Helper function to get the entity index from the configuration
  * Used to maintain the order of events based on the entity order in the configuration
@@ -644,6 +698,15 @@ function processEvents(
 
     // Process matched events
     for (const event of matchedEvents) {
+      // Completed todo items are only shown when configured
+      if (event._todoStatus === Constants.TODO.STATUS_COMPLETED && !config.show_completed_todos) {
+        continue;
+      }
+
+      // Apply event rules, hidden events don't count as duplicates of visible ones
+      const ruleStyle = Rules.getEventRuleStyle(event, config.event_rules, config.time_zone);
+      if (ruleStyle?.hide) continue;
+
       // Generate unique signature for duplicate detection
       const signature = config.filter_duplicates ? generateEventSignature(event) : '';
 
@@ -665,6 +728,16 @@ function processEvents(
         processedEvent._matchedConfig = entityConfig;
       }
 
+      // Store the rule overrides for rendering
+      if (ruleStyle) {
+        processedEvent._ruleStyle = ruleStyle;
+      }
+
+      // Detect name and age of birthday events
+      if (typeof entityConfig !== 'string' && entityConfig.type === 'birthdays') {
+        processedEvent._birthday = Birthdays.getBirthdayInfo(event, entityConfig);
+      }
+
       // Add to final result
       processedEvents.push(processedEvent);
     }
@@ -679,6 +752,7 @@ function processEvents(
 
 /**
  * Process and split multi-day events based on configuration
+ * Every resulting event gets its time model, split segments reference the original event
  */
 function processMultiDayEvents(
   events: Types.CalendarEventData[],
@@ -687,53 +761,30 @@ function processMultiDayEvents(
   const result: Types.CalendarEventData[] = [];
 
   for (const event of events) {
-    // Skip if we shouldn't split this event
-    if (!shouldSplitEvent(event, config)) {
-      result.push(event);
-      continue;
-    }
+    const model = FormatUtils.createEventModel(event, config.time_zone);
 
-    // Skip if not a multi-day event
-    if (!isMultiDayEvent(event)) {
-      result.push(event);
+    // Keep events that shouldn't be split or don't span multiple days
+    if (!shouldSplitEvent(event, config) || !model.isMultiDay) {
+      result.push({ ...event, _model: model });
       continue;
     }
 
     // Split multi-day event into segments
-    const segments = splitMultiDayEvent(event);
-    result.push(...segments);
+    const segments = splitMultiDayEvent(event, model);
+    segments.forEach((segment, index) => {
+      result.push({
+        ...segment,
+        _model: FormatUtils.createEventModel(segment, config.time_zone, event, {
+          index,
+          total: segments.length,
+        }),
+      });
+    });
   }
 
   return result;
 }
 
-/**
- * Check if an event spans multiple days
- */
-function isMultiDayEvent(event: Types.CalendarEventData): boolean {
-  if (!event.start || !event.end) return false;
-
-  // Handle all-day events
-  if (event.start.date && event.end.date) {
-    const startDate = new Date(event.start.date);
-    // For all-day events, end date is exclusive in iCal format
-    const endDate = new Date(event.end.date);
-    endDate.setDate(endDate.getDate() - 1);
-
-    return startDate.toDateString() !== endDate.toDateString();
-  }
-
-  // Handle timed events
-  if (event.start.dateTime && event.end.dateTime) {
-    const startDate = new Date(event.start.dateTime);
-    const endDate = new Date(event.end.dateTime);
-
-    return startDate.toDateString() !== endDate.toDateString();
-  }
-
-  return false;
-}
-
 /**
  * Check if event splitting should be applied based on configuration
  */
@@ -764,41 +815,34 @@ function formatAllDayDate(date: Date): string {
 
 /**
  * Split a multi-day event into daily segments
+ * Days are stepped by calendar date rather than by 24 hours, so segments stay
+ * aligned to midnight of the display time zone across daylight saving transitions
  */
-function splitMultiDayEvent(event: Types.CalendarEventData): Types.CalendarEventData[] {
+function splitMultiDayEvent(
+  event: Types.CalendarEventData,
+  model: Types.EventModel,
+): Types.CalendarEventData[] {
   const segments: Types.CalendarEventData[] = [];
 
   // Handle all-day events
-  if (event.start.date && event.end.date) {
-    // Parse dates using the helper function that handles local dates properly
-    const startDate = FormatUtils.parseAllDayDate(event.start.date);
-    const endDate = FormatUtils.parseAllDayDate(event.end.date);
-    endDate.setDate(endDate.getDate() - 1); // Adjust end date (exclusive in iCal)
-
-    // For each day in the range, create a segment
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      // Format dates using our local-aware formatter
-      const currentDateStr = formatAllDayDate(date);
-
-      // Create the next day for end date (exclusive end date)
-      const nextDate = new Date(date);
-      nextDate.setDate(nextDate.getDate() + 1);
-      const nextDateStr = formatAllDayDate(nextDate);
-
-      // Create segment with proper all-day format
-      const segment: Types.CalendarEventData = {
-        ...event,
-        start: { date: currentDateStr },
-        end: { date: nextDateStr },
-      };
+  if (model.isAllDay) {
+    const { start: startDate, end: endDate } = model;
+    const dayCount = FormatUtils.getDayDifference(startDate, endDate); // End date is exclusive in iCal
 
-      segments.push(segment);
+    // For each day in the range, create a segment with proper all-day format
+    for (let i = 0; i < dayCount; i++) {
+      segments.push({
+        ...event,
+        start: { date: formatAllDayDate(FormatUtils.getLocalDayStart(startDate, i)) },
+        end: { date: formatAllDayDate(FormatUtils.getLocalDayStart(startDate, i + 1)) },
+      });
     }
   }
   // Handle timed events
-  else if (event.start.dateTime && event.end.dateTime) {
-    const startDateTime = new Date(event.start.dateTime);
-    const endDateTime = new Date(event.end.dateTime);
+  else {
+    const { start: startDateTime, end: endDateTime } = model;
+    const toISOString = (date: Date) =>
+      FormatUtils.fromZonedDate(date, model.timeZone).toISOString();
 
     // First day: start time to end of day
     const firstDayEnd = new Date(startDateTime);
@@ -808,45 +852,28 @@ function splitMultiDayEvent(event: Types.CalendarEventData): Types.CalendarEvent
       // First day segment
       const firstDaySegment: Types.CalendarEventData = {
         ...event,
-        start: { dateTime: startDateTime.toISOString() },
-        end: { dateTime: firstDayEnd.toISOString() },
+        start: { dateTime: toISOString(startDateTime) },
+        end: { dateTime: toISOString(firstDayEnd) },
       };
       segments.push(firstDaySegment);
 
-      // Middle days: full days (if any)
-      const middleStart = new Date(startDateTime);
-      middleStart.setDate(middleStart.getDate() + 1);
-      middleStart.setHours(0, 0, 0, 0);
-
-      const lastDayStart = new Date(endDateTime);
-      lastDayStart.setHours(0, 0, 0, 0);
-
-      for (
-        let date = new Date(middleStart);
-        date < lastDayStart;
-        date.setDate(date.getDate() + 1)
-      ) {
-        // Format middle days as all-day events using our local-aware formatter
-        const currentDateStr = formatAllDayDate(date);
-        const nextDate = new Date(date);
-        nextDate.setDate(nextDate.getDate() + 1);
-        const nextDateStr = formatAllDayDate(nextDate);
-
-        const middleDaySegment: Types.CalendarEventData = {
-          ...event,
-          // Create all-day event for middle days
-          start: { date: currentDateStr },
-          end: { date: nextDateStr },
-        };
+      // Middle days: full days (if any), formatted as all-day events
+      const lastDayStart = FormatUtils.getLocalDayStart(endDateTime);
+      const middleDayCount = FormatUtils.getDayDifference(startDateTime, lastDayStart) - 1;
 
-        segments.push(middleDaySegment);
+      for (let i = 1; i <= middleDayCount; i++) {
+        segments.push({
+          ...event,
+          start: { date: formatAllDayDate(FormatUtils.getLocalDayStart(startDateTime, i)) },
+          end: { date: formatAllDayDate(FormatUtils.getLocalDayStart(startDateTime, i + 1)) },
+        });
       }
 
       // Last day: start of day to end time
       const lastDaySegment: Types.CalendarEventData = {
         ...event,
-        start: { dateTime: lastDayStart.toISOString() },
-        end: { dateTime: endDateTime.toISOString() },
+        start: { dateTime: toISOString(lastDayStart) },
+        end: { dateTime: toISOString(endDateTime) },
       };
       segments.push(lastDaySegment);
     } else {
@@ -946,6 +973,11 @@ export function getEntityColor(
 ): string {
   if (!entityId) return 'var(--primary-text-color)';
 
+  // Event rules take precedence over the calendar color
+  if (event?._ruleStyle?.color) {
+    return event._ruleStyle.color;
+  }
+
   // Check if we have a matched config stored directly on the event
   if (event && event._matchedConfig) {
     const matchedConfig = event._matchedConfig;
@@ -995,11 +1027,12 @@ export function getEntityAccentColorWithOpacity(
     );
   }
 
-  // Get base color - whether from entity config or from vertical_line_color config
+  // Get base color - whether from event rules, entity config or from vertical_line_color config
   const baseColor =
-    typeof entityConfig === 'string'
+    event?._ruleStyle?.accent_color ||
+    (typeof entityConfig === 'string'
       ? config.vertical_line_color // Use vertical_line_color for simple entity strings
-      : entityConfig?.accent_color || config.vertical_line_color;
+      : entityConfig?.accent_color || config.vertical_line_color);
 
   // Explicitly check if opacity is undefined or 0
   // If opacity is undefined, 0, or NaN, return the base color with no transparency
@@ -1011,6 +1044,78 @@ export function getEntityAccentColorWithOpacity(
   return Helpers.convertToRGBA(baseColor, opacity);
 }
 
+/**
+ * Get the background opacity of an event
+ * Event rules can override the configured event_background_opacity
+ *
+ * @param event - Event data with optional rule overrides
+ * @param config - Current card configuration
+ * @returns Opacity value (0-100)
+ */
+export function getEventBackgroundOpacity(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+): number {
+  return event._ruleStyle?.background_opacity ?? config.event_background_opacity;
+}
+
+/**
+ * Get the icon shown before the title of an event
+ * Event rules take precedence over the event_icons patterns (matched against
+ * the title in order), which take precedence over the calendar's event_icon
+ *
+ * @param event - Event data with optional rule overrides and matched configuration
+ * @param config - Current card configuration
+ * @returns mdi: icon, emoji or image, or undefined if the event has no icon
+ */
+export function getEventIcon(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+): string | undefined {
+  if (event._isEmptyDay) return undefined;
+  if (event._ruleStyle?.icon) return event._ruleStyle.icon;
+
+  const match = Object.entries(config.event_icons || {}).find(([pattern]) =>
+    Rules.matchesPattern(event.summary, pattern),
+  );
+  if (match) return match[1];
+
+  return (
+    event._matchedConfig?.event_icon ?? (event._birthday ? Constants.BIRTHDAYS.ICON : undefined)
+  );
+}
+
+/**
+ * Get the title shown for an event
+ * Birthday events show their formatted title, other events their summary
+ *
+ * @param event - Event after grouping by day
+ * @returns Title to display
+ */
+export function getEventTitle(event: Types.CalendarEventData): string {
+  return event._birthday?.title ?? event.summary ?? '';
+}
+
+/**
+ * Get the whole event a split day segment was created from
+ * Keeps the display fields of the segment and restores the start and end of the
+ * original event, so the details, edit and delete work on the stored event
+ *
+ * @param event - Event after grouping by day
+ * @returns Event spanning all of its days
+ */
+export function getWholeEvent(event: Types.CalendarEventData): Types.CalendarEventData {
+  const original = event._model?.segment ? event._model.original : undefined;
+  if (!original) return event;
+
+  return {
+    ...event,
+    start: original.start,
+    end: original.end,
+    _model: FormatUtils.createEventModel(original, event._model?.timeZone),
+  };
+}
+
 /**
  * Get entity label from configuration based on entity ID
  *
@@ -1041,6 +1146,18 @@ export function getEntityLabel(
   return entityConfig.label;
 }
 
+/**
+ * Get the display name of an entity from Home Assistant
+ *
+ * @param entityId - The entity ID to get the name for
+ * @param hass - Home Assistant instance
+ * @returns Friendly name or the entity ID if not available
+ */
+export function getEntityName(entityId: string, hass: Types.Hass | null): string {
+  const friendlyName = hass?.states[entityId]?.attributes?.friendly_name;
+  return typeof friendlyName === 'string' ? friendlyName : entityId;
+}
+
 /**
  * Get entity-specific setting or fall back to global setting
  *
@@ -1076,6 +1193,33 @@ export function getEntitySetting<K extends keyof Types.EntityConfig>(
   return entityConfig[settingName];
 }
 
+/**
+ * Check whether an event covers a day of the display time zone
+ * All-day events cover the days up to their exclusive end date, timed events
+ * every day they overlap; events without a duration cover the day they start on
+ *
+ * @param event - Event to check
+ * @param date - Day to check (wall clock date of the display time zone)
+ * @param timeZone - Display time zone
+ * @returns True if the event covers the day
+ */
+export function isEventOnDate(
+  event: Types.CalendarEventData,
+  date: Date,
+  timeZone?: string,
+): boolean {
+  const model = FormatUtils.getEventModel(event, timeZone);
+  if (!FormatUtils.isValidEventModel(model)) return false;
+
+  const dayStart = FormatUtils.getLocalDayStart(date);
+  const dayEnd = FormatUtils.getLocalDayStart(date, 1);
+  if (model.start >= dayEnd) return false;
+
+  return model.end.getTime() === model.start.getTime()
+    ? model.start >= dayStart
+    : model.end > dayStart;
+}
+
 /**
  * Check if an event is currently running (started but not yet ended)
  *
@@ -1085,19 +1229,14 @@ export function getEntitySetting<K extends keyof Types.EntityConfig>(
 export function isEventCurrentlyRunning(event: Types.CalendarEventData): boolean {
   if (!event || event._isEmptyDay) return false;
 
-  const now = new Date();
-  const isAllDayEvent = !event.start.dateTime;
+  const model = getProcessedEventModel(event);
 
   // All-day events don't show a progress bar
-  if (isAllDayEvent) return false;
-
-  const startDateTime = event.start.dateTime ? new Date(event.start.dateTime) : null;
-  const endDateTime = event.end.dateTime ? new Date(event.end.dateTime) : null;
-
-  if (!startDateTime || !endDateTime) return false;
+  if (model.isAllDay || !FormatUtils.isValidEventModel(model)) return false;
 
   // Event is running if current time is between start and end
-  return now >= startDateTime && now < endDateTime;
+  const now = FormatUtils.getZonedNow(model.timeZone);
+  return now >= model.start && now < model.end;
 }
 
 /**
@@ -1109,12 +1248,11 @@ export function isEventCurrentlyRunning(event: Types.CalendarEventData): boolean
 export function calculateEventProgress(event: Types.CalendarEventData): number | null {
   if (!isEventCurrentlyRunning(event)) return null;
 
-  const now = new Date();
-  const startDateTime = new Date(event.start.dateTime!);
-  const endDateTime = new Date(event.end.dateTime!);
+  const model = getProcessedEventModel(event);
+  const now = FormatUtils.getZonedNow(model.timeZone);
 
-  const totalDuration = endDateTime.getTime() - startDateTime.getTime();
-  const elapsedTime = now.getTime() - startDateTime.getTime();
+  const totalDuration = model.end.getTime() - model.start.getTime();
+  const elapsedTime = now.getTime() - model.start.getTime();
 
   // Calculate percentage and ensure it's between 0-100
   const progressPercentage = Math.min(
@@ -1125,6 +1263,46 @@ export function calculateEventProgress(event: Types.CalendarEventData): number |
   return progressPercentage;
 }
 
+/**
+ * Get the time model created while processing an event
+ * Events that were not processed are measured in the browser time zone
+ *
+ * @param event Calendar event
+ * @returns Time model of the event
+ */
+function getProcessedEventModel(event: Types.CalendarEventData): Types.EventModel {
+  return event._model ?? FormatUtils.createEventModel(event);
+}
+
+/**
+ * Find the next time a shown event starts or ends
+ * Rows change state at these moments: running events get their progress bar
+ * and ended events are dimmed
+ *
+ * @param events Events shown by the card
+ * @param now Current time in milliseconds
+ * @returns Time of the next event start or end in milliseconds, or null if none follows
+ */
+export function getNextEventTransition(
+  events: ReadonlyArray<Types.CalendarEventData>,
+  now = Date.now(),
+): number | null {
+  let next: number | null = null;
+
+  events.forEach((event) => {
+    [event.start.dateTime, event.end.dateTime].forEach((dateTime) => {
+      if (!dateTime) return;
+
+      const time = new Date(dateTime).getTime();
+      if (time > now && (next === null || time < next)) {
+        next = time;
+      }
+    });
+  });
+
+  return next;
+}
+
 //-----------------------------------------------------------------------------
 // DATA FETCHING & API FUNCTIONS
 //-----------------------------------------------------------------------------
@@ -1132,60 +1310,244 @@ export function calculateEventProgress(event: Types.CalendarEventData): number |
 /**
  * Fetch calendar events from Home Assistant API
  * @private Internal utility used by fetchEventData
+ *
+ * Calendars are requested in parallel (up to FETCH.MAX_CONCURRENT_REQUESTS at a time),
+ * failed or timed out requests are retried with exponential backoff. Calendars that
+ * still fail are reported in failedEntities, the events of all other calendars are kept.
+ *
+ * Calendars with stored events younger than maxAge are not requested. When
+ * refreshEntityIds is provided, only those entities are requested from the API
+ * and all other entities reuse their stored events regardless of their age.
+ * The card identified by requesterId isn't notified about the events it fetched.
  */
 export async function fetchEvents(
   hass: Types.Hass,
   entities: Array<Types.EntityConfig>,
   timeWindow: { start: Date; end: Date },
-): Promise<ReadonlyArray<Types.CalendarEventData>> {
-  const allEvents: Types.CalendarEventData[] = [];
+  refreshEntityIds?: string[],
+  maxAge = 0,
+  purgeAfter = getCacheDuration() * Constants.CACHE.CACHE_EXPIRY_MULTIPLIER,
+  requesterId = '',
+): Promise<Types.FetchResult> {
+  // Each calendar is fetched once, even if it is configured multiple times
+  const entityIds = [...new Set(entities.map((entityConfig) => entityConfig.entity))];
+  const failedEntities: string[] = [];
+  const now = Date.now();
+
+  const entriesPerEntity = await mapWithConcurrency(
+    entityIds,
+    Constants.FETCH.MAX_CONCURRENT_REQUESTS,
+    async (entityId): Promise<Types.CacheEntry> => {
+      const stored = await EventStore.getEntityEvents(entityId, timeWindow);
+      const reuseStored = refreshEntityIds
+        ? !refreshEntityIds.includes(entityId)
+        : now - (stored?.timestamp ?? 0) < maxAge;
+      if (stored && reuseStored) {
+        Logger.debug(`Reusing ${stored.events.length} stored events for ${entityId}`);
+        return stored;
+      }
 
-  // Create a Set to track which entity IDs we've already fetched
-  const fetchedEntityIds = new Set<string>();
+      try {
+        // Cards and tabs requesting the same calendar and window at the same time share one fetch
+        return await Sharing.shareRequest(
+          `${entityId}|${timeWindow.start.getTime()}|${timeWindow.end.getTime()}`,
+          entityId,
+          requesterId,
+          async () => {
+            const events = await fetchEntityEvents(hass, entityId, timeWindow);
+            await EventStore.putEntityEvents(entityId, timeWindow, events, purgeAfter);
+            return { events, timestamp: Date.now() };
+          },
+          () => EventStore.getEntityEvents(entityId, timeWindow),
+        );
+      } catch (error) {
+        Logger.error(`Failed to fetch events for ${entityId}:`, error);
+        failedEntities.push(entityId);
+
+        // Keep showing the last known events of the calendar rather than dropping them,
+        // even if they are past their purge time
+        const lastKnown = stored || (await EventStore.getEntityEvents(entityId, timeWindow, true));
+        return lastKnown || { events: [], timestamp: now };
+      }
+    },
+  );
 
-  for (const entityConfig of entities) {
-    // Skip entities we already fetched
-    if (fetchedEntityIds.has(entityConfig.entity)) {
-      continue;
-    }
+  return {
+    events: entriesPerEntity.flatMap((entry) => entry.events),
+    failedEntities: entityIds.filter((entityId) => failedEntities.includes(entityId)),
+    timestamp: Math.min(now, ...entriesPerEntity.map((entry) => entry.timestamp)),
+  };
+}
 
+/**
+ * Fetch the events of a single calendar or todo list, retrying failed and timed out requests
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Calendar or todo entity ID
+ * @param timeWindow - Time window to fetch
+ * @returns Events of the calendar with the fields the card uses
+ * @throws The error of the last attempt if all attempts failed
+ */
+async function fetchEntityEvents(
+  hass: Types.Hass,
+  entityId: string,
+  timeWindow: { start: Date; end: Date },
+): Promise<Types.CalendarEventData[]> {
+  for (let attempt = 0; ; attempt++) {
     try {
-      const path = `calendars/${entityConfig.entity}?start=${timeWindow.start.toISOString()}&end=${timeWindow.end.toISOString()}`;
-      Logger.info(`Fetching calendar events with path: ${path}`);
+      return isTodoEntity(entityId)
+        ? await requestTodoEvents(hass, entityId, timeWindow)
+        : await requestCalendarEvents(hass, entityId, timeWindow);
+    } catch (error) {
+      if (attempt >= Constants.FETCH.MAX_RETRIES) {
+        throw error;
+      }
 
-      const events = await hass.callApi('GET', path);
+      const delay = Constants.FETCH.RETRY_BASE_DELAY_MS * 2 ** attempt;
+      Logger.warn(`Fetching ${entityId} failed, retrying in ${delay}ms:`, error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
 
-      if (!events || !Array.isArray(events)) {
-        Logger.warn(`Invalid response for ${entityConfig.entity}`);
-        continue;
-      }
+/**
+ * Check whether an entity is a todo list
+ *
+ * @param entityId - Entity ID
+ * @returns True for todo entities
+ */
+export function isTodoEntity(entityId: string | undefined): boolean {
+  return Boolean(entityId?.startsWith(Constants.TODO.ENTITY_PREFIX));
+}
 
-      const processedEvents = (events as Types.CalendarEventData[]).map(
-        (event: Types.CalendarEventData) => ({
-          ...event,
-          _entityId: entityConfig.entity,
-        }),
-      );
+/**
+ * Request the events of a calendar through the calendars REST API
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Calendar entity ID
+ * @param timeWindow - Time window to fetch
+ * @returns Events of the calendar with the fields the card uses
+ */
+async function requestCalendarEvents(
+  hass: Types.Hass,
+  entityId: string,
+  timeWindow: { start: Date; end: Date },
+): Promise<Types.CalendarEventData[]> {
+  const path = `calendars/${entityId}?start=${timeWindow.start.toISOString()}&end=${timeWindow.end.toISOString()}`;
 
-      allEvents.push(...processedEvents);
+  Logger.info(`Fetching calendar events with path: ${path}`);
+  const events = await withTimeout(hass.callApi('GET', path), Constants.FETCH.REQUEST_TIMEOUT_MS);
 
-      // Mark this entity as fetched
-      fetchedEntityIds.add(entityConfig.entity);
-    } catch (error) {
-      Logger.error(`Failed to fetch events for ${entityConfig.entity}:`, error);
+  if (!Array.isArray(events)) {
+    throw new Error(`Invalid response for ${entityId}`);
+  }
 
-      try {
-        Logger.info(
-          'Available hass API methods:',
-          Object.keys(hass).filter((k) => typeof hass[k as keyof Types.Hass] === 'function'),
-        );
-      } catch {
-        // Silent
-      }
-    }
+  // Keep only the fields the card uses, including details shown in the event popup
+  return (events as Types.CalendarEventData[]).map((event) => ({
+    start: event.start,
+    end: event.end,
+    summary: event.summary,
+    location: event.location,
+    description: event.description,
+    uid: event.uid,
+    recurrence_id: event.recurrence_id,
+    rrule: event.rrule,
+    _entityId: entityId,
+  }));
+}
+
+/**
+ * Request the items of a todo list through the todo/item/list websocket command
+ * Items are placed on their due date, items without one or due outside the time
+ * window are left out. Completed items are kept and filtered while processing.
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Todo entity ID
+ * @param timeWindow - Time window to fetch
+ * @returns Items of the todo list as events
+ */
+async function requestTodoEvents(
+  hass: Types.Hass,
+  entityId: string,
+  timeWindow: { start: Date; end: Date },
+): Promise<Types.CalendarEventData[]> {
+  Logger.info(`Fetching todo items of ${entityId}`);
+  const response = await withTimeout(
+    hass.callWS<{ items?: Types.TodoItem[] }>({ type: 'todo/item/list', entity_id: entityId }),
+    Constants.FETCH.REQUEST_TIMEOUT_MS,
+  );
+
+  if (!Array.isArray(response?.items)) {
+    throw new Error(`Invalid response for ${entityId}`);
   }
 
-  return allEvents;
+  return response.items.flatMap((item) => {
+    if (!item.due) return [];
+
+    // Due dates become all-day events, due datetimes events without a duration
+    const isAllDay = /^\d{4}-\d{2}-\d{2}$/.test(item.due);
+    const start = isAllDay ? FormatUtils.parseAllDayDate(item.due) : new Date(item.due);
+    const end = isAllDay ? FormatUtils.getLocalDayStart(start, 1) : start;
+    if (isNaN(start.getTime()) || end < timeWindow.start || start >= timeWindow.end) return [];
+
+    return [
+      {
+        start: isAllDay ? { date: item.due } : { dateTime: item.due },
+        end: isAllDay ? { date: FormatUtils.getLocalDateKey(end) } : { dateTime: item.due },
+        summary: item.summary,
+        description: item.description,
+        uid: item.uid,
+        _entityId: entityId,
+        _todoStatus: item.status,
+      },
+    ];
+  });
+}
+
+/**
+ * Reject a promise that doesn't settle within a time limit
+ *
+ * @param promise - Promise to wait for
+ * @param timeoutMs - Time limit in milliseconds
+ * @returns Promise settling like the original one or rejecting after the time limit
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timerId = setTimeout(
+      () => reject(new Error(`Request timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timerId));
+}
+
+/**
+ * Map items with an async function while limiting how many calls run at the same time
+ *
+ * @param items - Items to map
+ * @param limit - Maximum number of concurrent calls
+ * @param mapper - Async function to apply
+ * @returns Results in the order of the items
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 /**
@@ -1193,9 +1555,10 @@ export async function fetchEvents(
  * Returns a Date object for the specified offset from today
  *
  * @param relativeDate - String in format "today+n" or "today-n" where n is number of days
+ * @param timeZone - Display time zone defining "today"
  * @returns Date object or null if invalid format
  */
-function parseRelativeDate(relativeDate: string): Date | null {
+function parseRelativeDate(relativeDate: string, timeZone?: string): Date | null {
   // Check for simplified format: +7 or -3 (without "today" prefix)
   const simplifiedMatch = relativeDate.match(/^([+-])(\d+)$/);
   if (simplifiedMatch) {
@@ -1203,10 +1566,7 @@ function parseRelativeDate(relativeDate: string): Date | null {
     const days = parseInt(simplifiedMatch[2], 10);
 
     if (!isNaN(days)) {
-      const date = new Date();
-      date.setHours(0, 0, 0, 0); // Normalize to start of day
-      date.setDate(date.getDate() + sign * days);
-      return date;
+      return FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone), sign * days);
     }
     return null;
   }
@@ -1220,40 +1580,63 @@ function parseRelativeDate(relativeDate: string): Date | null {
 
   if (isNaN(days)) return null;
 
-  const date = new Date();
-  date.setHours(0, 0, 0, 0); // Normalize to start of day
-  date.setDate(date.getDate() + sign * days);
-  return date;
+  return FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone), sign * days);
 }
 
 /**
  * Calculate time window for event fetching
+ * Days are counted on the wall clock of the display time zone, the returned
+ * boundaries are points in time for the API request
  *
  * @param daysToShow - Number of days to show in the calendar
  * @param startDate - Optional start date in YYYY-MM-DD format, ISO format, or relative format "today+n"
+ * @param timeZone - Display time zone (defaults to the browser's zone)
  * @returns Object containing start and end dates for the calendar window
  */
-export function getTimeWindow(daysToShow: number, startDate?: string): { start: Date; end: Date } {
+export function getTimeWindow(
+  daysToShow: number,
+  startDate?: string,
+  timeZone?: string,
+): { start: Date; end: Date } {
+  const { start, end } = getZonedTimeWindow(daysToShow, startDate, timeZone);
+  return {
+    start: FormatUtils.fromZonedDate(start, timeZone),
+    end: FormatUtils.fromZonedDate(end, timeZone),
+  };
+}
+
+/**
+ * Calculate the days of a time window on the wall clock of the display time zone
+ *
+ * @param daysToShow - Number of days to show in the calendar
+ * @param startDate - Optional start date in YYYY-MM-DD format, ISO format, or relative format "today+n"
+ * @param timeZone - Display time zone
+ * @returns Object containing start and end dates as wall clock dates of the time zone
+ */
+function getZonedTimeWindow(
+  daysToShow: number,
+  startDate?: string,
+  timeZone?: string,
+): { start: Date; end: Date } {
   let start: Date;
 
   // Parse custom start date if provided
   if (startDate && startDate.trim() !== '') {
     try {
       // First try to parse as relative date (today+n or today-n)
-      const relativeDate = parseRelativeDate(startDate.trim());
+      const relativeDate = parseRelativeDate(startDate.trim(), timeZone);
       if (relativeDate) {
         start = relativeDate;
       }
       // Check if it's an ISO date string (which HA converts to when saving)
       else if (startDate.includes('T')) {
         // Handle ISO format (e.g. "2025-03-14T00:00:00.000Z")
-        start = new Date(startDate);
+        start = FormatUtils.toZonedDate(new Date(startDate), timeZone);
 
         // Check if valid date
         if (isNaN(start.getTime())) {
           Logger.warn(`Invalid ISO date: ${startDate}, falling back to today`);
-          start = new Date();
-          start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+          start = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone));
         }
       } else {
         // Handle YYYY-MM-DD format
@@ -1266,38 +1649,151 @@ export function getTimeWindow(daysToShow: number, startDate?: string): { start:
           // Double-check if date is valid (e.g., not Feb 30)
           if (isNaN(start.getTime())) {
             Logger.warn(`Invalid date: ${startDate}, falling back to today`);
-            start = new Date();
-            start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+            start = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone));
           }
         } else {
           Logger.warn(`Malformed date: ${startDate}, falling back to today`);
-          start = new Date();
-          start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+          start = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone));
         }
       }
     } catch (error) {
       Logger.warn(`Error parsing date: ${startDate}, falling back to today`, error);
-      start = new Date();
-      start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+      start = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone));
     }
   } else {
     // Default to today if no valid start date provided
-    start = new Date();
-    start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    start = FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(timeZone));
   }
 
   // Make sure time is set to 00:00:00
-  start.setHours(0, 0, 0, 0);
+  start = FormatUtils.getLocalDayStart(start);
 
-  // Calculate end date based on start date
-  const end = new Date(start);
+  // Calculate end date based on start date, stepping calendar days so DST changes don't shift it
   const days = parseInt(daysToShow.toString()) || 3;
-  end.setDate(start.getDate() + days);
+  const end = FormatUtils.getLocalDayStart(start, days);
   end.setHours(23, 59, 59, 999);
 
   return { start, end };
 }
 
+/**
+ * Calculate the time window to fetch for the configured view
+ * The month and week views fetch a window large enough to fill their grid around
+ * the reference date, independent of the configured first day of week
+ *
+ * @param config - Card configuration
+ * @returns Object containing start and end dates for the API request
+ */
+export function getViewTimeWindow(config: Types.Config): { start: Date; end: Date } {
+  const referenceDate = getStartDateReference(config);
+
+  // Windows are computed on the wall clock of the display time zone
+  const toRequestWindow = (start: Date, end: Date) => ({
+    start: FormatUtils.fromZonedDate(start, config.time_zone),
+    end: FormatUtils.fromZonedDate(end, config.time_zone),
+  });
+
+  switch (config.view) {
+    case 'month': {
+      const start = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), 1);
+      start.setDate(start.getDate() - 7);
+
+      const end = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), 1);
+      end.setDate(end.getDate() + 42);
+      end.setHours(23, 59, 59, 999);
+
+      return toRequestWindow(start, end);
+    }
+
+    case 'week': {
+      const start = new Date(referenceDate);
+      start.setDate(start.getDate() - 6);
+
+      const end = new Date(referenceDate);
+      end.setDate(end.getDate() + 6);
+      end.setHours(23, 59, 59, 999);
+
+      return toRequestWindow(start, end);
+    }
+
+    case 'day': {
+      const end = new Date(referenceDate);
+      end.setHours(23, 59, 59, 999);
+
+      return toRequestWindow(new Date(referenceDate), end);
+    }
+
+    default:
+      return getTimeWindow(config.days_to_show, config.start_date, config.time_zone);
+  }
+}
+
+/**
+ * Calculate the fixed range of days shown by grid based views
+ *
+ * @param config - Card configuration
+ * @param firstDayOfWeek - First day of week (0 = Sunday, 1 = Monday)
+ * @returns First day and number of days in the grid, or null for the agenda view
+ */
+export function getGridViewRange(
+  config: Types.Config,
+  firstDayOfWeek: number,
+): { start: Date; days: number } | null {
+  const referenceDate = getStartDateReference(config);
+
+  switch (config.view) {
+    case 'month': {
+      const grid = getMonthGridRange(referenceDate, firstDayOfWeek);
+      return { start: grid.start, days: grid.weeks * 7 };
+    }
+
+    case 'week': {
+      // Week starts on the configured first day of week on or before the reference date
+      const start = new Date(referenceDate);
+      start.setDate(start.getDate() - ((start.getDay() - firstDayOfWeek + 7) % 7));
+      return { start, days: 7 };
+    }
+
+    case 'day':
+      return { start: referenceDate, days: 1 };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Calculate the visible range of a month grid
+ * The grid starts on the configured first day of week on or before the 1st of the month
+ * and spans as many full weeks as needed to include the last day of the month
+ *
+ * @param referenceDate - Any date within the month to display
+ * @param firstDayOfWeek - First day of week (0 = Sunday, 1 = Monday)
+ * @returns First grid date, number of week rows, and displayed month and year
+ */
+export function getMonthGridRange(
+  referenceDate: Date,
+  firstDayOfWeek: number,
+): { start: Date; weeks: number; month: number; year: number } {
+  const year = referenceDate.getFullYear();
+  const month = referenceDate.getMonth();
+  const firstOfMonth = new Date(year, month, 1);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  // Number of leading days from the previous month
+  const offset = (firstOfMonth.getDay() - firstDayOfWeek + 7) % 7;
+
+  const start = new Date(firstOfMonth);
+  start.setDate(firstOfMonth.getDate() - offset);
+
+  return {
+    start,
+    weeks: Math.ceil((offset + daysInMonth) / 7),
+    month,
+    year,
+  };
+}
+
 /**
  * Determine if this is likely a manual page reload rather than an automatic refresh
  * Uses performance API to check navigation type when available
@@ -1328,193 +1824,108 @@ export function isManualPageLoad(): boolean {
 //-----------------------------------------------------------------------------
 
 /**
- * Get cached event data if available and not expired
+ * Remove the stored events of all calendars of a configuration
+ * Used after modifying events so no card can fall back to outdated data
  *
- * @param key - Cache key
  * @param config - Card configuration
- * @param isManualPageReload - Whether this check is during a manual page reload
- * @returns Cached events or null if expired/unavailable
+ * @returns Promise resolving once the stored events are removed
  */
-export function getCachedEvents(
-  key: string,
-  config?: Types.Config,
-  isManualPageReload: boolean = false,
-): Types.CalendarEventData[] | null {
-  const cacheEntry = getValidCacheEntry(key, config, isManualPageReload);
-  if (cacheEntry) {
-    return [...cacheEntry.events];
-  }
-  return null;
+export async function invalidateCachedEvents(config: Types.Config): Promise<void> {
+  await EventStore.deleteEntityEvents(
+    config.entities.map((e) => (typeof e === 'string' ? e : e.entity)),
+  );
 }
 
 /**
- * Cache event data in localStorage
+ * Get refresh interval from config or use default
  *
- * @param key - Cache key
- * @param events - Calendar event data to cache
- * @returns Boolean indicating if caching was successful
+ * @param config - Card configuration
+ * @returns Cache duration in milliseconds
  */
-export function cacheEvents(key: string, events: Types.CalendarEventData[]): boolean {
-  try {
-    Logger.info(`Caching ${events.length} events`);
-    const cacheEntry: Types.CacheEntry = {
-      events,
-      timestamp: Date.now(),
-    };
-
-    localStorage.setItem(key, JSON.stringify(cacheEntry));
-
-    return getValidCacheEntry(key) !== null;
-  } catch (e) {
-    Logger.error('Failed to cache calendar events:', e);
-    return false;
-  }
+export function getCacheDuration(config?: Types.Config): number {
+  return (config?.refresh_interval || Constants.CACHE.DEFAULT_DATA_REFRESH_MINUTES) * 60 * 1000;
 }
 
+//-----------------------------------------------------------------------------
+// DATE HANDLING HELPERS
+//-----------------------------------------------------------------------------
+
 /**
- * Generate a base cache key from configuration
- * This function creates a stable cache key that depends only on data-affecting parameters
+ * Get the reference start date based on configuration or today
+ * Used for both empty days generation and time window calculations
  *
- * @param instanceId - Component instance ID for uniqueness
- * @param entities - Calendar entities
- * @param daysToShow - Number of days to display
- * @param showPastEvents - Whether to show past events
- * @param startDate - Optional start date in YYYY-MM-DD format or ISO format
- * @param filterDuplicates - Whether duplicate filtering is enabled
- * @returns Base cache key
+ * @param config - Card configuration with optional start_date
+ * @returns Wall clock date of the display time zone representing the starting reference date
  */
-export function getBaseCacheKey(
-  instanceId: string,
-  entities: Array<string | Types.EntityConfig>,
-  daysToShow: number,
-  showPastEvents: boolean,
-  startDate?: string,
-  filterDuplicates: boolean = false,
-): string {
-  const entityIds = entities
-    .map((e) => (typeof e === 'string' ? e : e.entity))
-    .sort()
-    .join('_');
-
-  // Normalize ISO date format to YYYY-MM-DD for caching
-  let normalizedStartDate = '';
-  if (startDate) {
-    try {
-      if (startDate.includes('T')) {
-        // It's an ISO date, extract just the date part
-        normalizedStartDate = startDate.split('T')[0];
-      } else {
-        normalizedStartDate = startDate;
-      }
-    } catch {
-      normalizedStartDate = startDate; // Fallback to original
-    }
+export function getStartDateReference(config: Types.Config): Date {
+  // If start_date is configured, use it
+  if (config.start_date && config.start_date.trim() !== '') {
+    // Reuse the time window calculation which already has date parsing logic
+    const timeWindow = getZonedTimeWindow(config.days_to_show, config.start_date, config.time_zone);
+    return timeWindow.start;
   }
 
-  // Include the normalized startDate in the cache key
-  const startDatePart = normalizedStartDate ? `_${normalizedStartDate}` : '';
-
-  // Include filter_duplicates state in the cache key
-  const filterPart = filterDuplicates ? '_filtered' : '';
-
-  // Include entity filter patterns in cache key
-  const filterPatterns: string[] = [];
-  entities.forEach((entity) => {
-    if (typeof entity !== 'string') {
-      if (entity.blocklist) filterPatterns.push(`b:${entity.entity}:${entity.blocklist}`);
-      if (entity.allowlist) filterPatterns.push(`a:${entity.entity}:${entity.allowlist}`);
-    }
-  });
-
-  const filterListPart =
-    filterPatterns.length > 0 ? `_filters:${encodeURIComponent(filterPatterns.join('|'))}` : '';
-
-  return `${Constants.CACHE.EVENT_CACHE_KEY_PREFIX}${instanceId}_${entityIds}_${daysToShow}_${showPastEvents ? 1 : 0}${startDatePart}${filterPart}${filterListPart}${Constants.VERSION.CURRENT}`;
+  // Otherwise use today in the display time zone as fallback
+  return FormatUtils.getLocalDayStart(FormatUtils.getZonedNow(config.time_zone));
 }
 
 /**
- * Parse and validate cache entry
- * Helper function to ensure consistent cache validation
+ * Check whether a start date uses a format the card understands
+ * Accepts YYYY-MM-DD, ISO date-times as saved by Home Assistant and
+ * relative dates like today+7, +7 or today-3
  *
- * @param key - Cache key
- * @param config - Card configuration
- * @param isManualPageReload - Whether this check is during a manual page reload
- * @returns Valid cache entry or null if invalid/expired
+ * @param startDate - Start date string to check
+ * @returns True if the start date is valid
  */
-export function getValidCacheEntry(
-  key: string,
-  config?: Types.Config,
-  isManualPageReload: boolean = false,
-): Types.CacheEntry | null {
-  try {
-    const item = localStorage.getItem(key);
-    if (!item) return null;
-
-    const cache = JSON.parse(item) as Types.CacheEntry;
-    const now = Date.now();
-
-    // Determine cache duration based on context
-    let cacheDuration;
-
-    // Only apply short cache duration if refresh_on_navigate is enabled
-    // and this is a manual page reload/navigation
-    if (isManualPageReload && config?.refresh_on_navigate) {
-      cacheDuration = Constants.CACHE.MANUAL_RELOAD_CACHE_DURATION_SECONDS * 1000;
-    } else {
-      // Otherwise use normal cache duration
-      cacheDuration = getCacheDuration(config);
-    }
+export function isValidStartDate(startDate: string): boolean {
+  const value = startDate.trim();
+  if (parseRelativeDate(value)) return true;
 
-    const isValid = now - cache.timestamp < cacheDuration;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(T.*)?$/);
+  if (!match) return false;
 
-    if (!isValid) {
-      localStorage.removeItem(key);
-      Logger.info(`Cache expired and removed for ${key}`);
-      return null;
-    }
+  if (match[4]) return !isNaN(new Date(value).getTime());
 
-    return cache;
-  } catch (e) {
-    Logger.warn('Cache error:', e);
-    try {
-      localStorage.removeItem(key);
-    } catch {}
-    return null;
-  }
+  // Reject days the month doesn't have (e.g. Feb 30), Date would roll them over
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
 }
 
 /**
- * Get refresh interval from config or use default
+ * Get the configuration for a window shifted by a navigation offset
+ * Each step moves by one period of the view: days_to_show days for the agenda,
+ * a week, a day or a month. The shifted window is expressed as start_date,
+ * so it gets its own cache key. Past windows always show past events.
  *
  * @param config - Card configuration
- * @returns Cache duration in milliseconds
- */
-export function getCacheDuration(config?: Types.Config): number {
-  return (config?.refresh_interval || Constants.CACHE.DEFAULT_DATA_REFRESH_MINUTES) * 60 * 1000;
-}
-
-//-----------------------------------------------------------------------------
-// DATE HANDLING HELPERS
-//-----------------------------------------------------------------------------
-
-/**
- * Get the reference start date based on configuration or today
- * Used for both empty days generation and time window calculations
- *
- * @param config - Card configuration with optional start_date
- * @returns Date object representing the starting reference date
+ * @param offset - Number of periods to move (negative for the past)
+ * @returns Configuration for the shifted window (the original one for offset 0)
  */
-function getStartDateReference(config: Types.Config): Date {
-  // If start_date is configured, use it
-  if (config.start_date && config.start_date.trim() !== '') {
-    // Reuse existing getTimeWindow function which already has date parsing logic
-    const timeWindow = getTimeWindow(config.days_to_show, config.start_date);
-    return timeWindow.start;
+export function getNavigatedConfig(config: Types.Config, offset: number): Types.Config {
+  if (!offset) return config;
+
+  const date = getStartDateReference(config);
+
+  switch (config.view) {
+    case 'month':
+      date.setMonth(date.getMonth() + offset, 1);
+      break;
+    case 'week':
+      date.setDate(date.getDate() + offset * 7);
+      break;
+    case 'day':
+      date.setDate(date.getDate() + offset);
+      break;
+    default:
+      date.setDate(date.getDate() + offset * (parseInt(config.days_to_show.toString()) || 3));
   }
 
-  // Otherwise use today as fallback
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return {
+    ...config,
+    start_date: FormatUtils.getLocalDateKey(date),
+    show_past_events: offset < 0 ? true : config.show_past_events,
+  };
 }
 
 /**
@@ -30,32 +30,22 @@ export function formatEventTime(
   config: Types.Config,
   language: string = 'en',
 ): string {
-  const isAllDayEvent = !event.start.dateTime;
-
-  let startDate;
-  let endDate;
-
-  if (isAllDayEvent) {
-    // Parse all-day dates using the specialized function to handle timezone issues
-    startDate = parseAllDayDate(event.start.date || '');
-    endDate = parseAllDayDate(event.end.date || '');
-  } else {
-    // Regular events with time use standard parsing
-    startDate = new Date(event.start.dateTime || '');
-    endDate = new Date(event.end.dateTime || '');
-  }
+  // Dates are shown in the display time zone
+  const {
+    start: startDate,
+    end: endDate,
+    isAllDay,
+    isMultiDay,
+  } = getEventModel(event, config.time_zone);
 
   const translations = Localize.getTranslations(language);
 
-  if (isAllDayEvent) {
-    const adjustedEndDate = new Date(endDate);
-    // For all-day events, the end date is exclusive in iCal format
-    adjustedEndDate.setDate(adjustedEndDate.getDate() - 1);
-
-    // Check if it's a multi-day event
-    if (startDate.toDateString() !== adjustedEndDate.toDateString()) {
+  if (isAllDay) {
+    if (isMultiDay) {
+      // For all-day events, the end date is exclusive in iCal format
+      const lastDay = getLocalDayStart(endDate, -1);
       return capitalizeFirstLetter(
-        formatMultiDayAllDayTime(adjustedEndDate, language, translations),
+        formatMultiDayAllDayTime(lastDay, language, translations, config.time_zone),
       );
     }
 
@@ -64,9 +54,16 @@ export function formatEventTime(
   }
 
   // Handle multi-day events with start/end times
-  if (startDate.toDateString() !== endDate.toDateString()) {
+  if (isMultiDay) {
     return capitalizeFirstLetter(
-      formatMultiDayTime(startDate, endDate, language, translations, config.time_24h),
+      formatMultiDayTime(
+        startDate,
+        endDate,
+        language,
+        translations,
+        config.time_24h,
+        config.time_zone,
+      ),
     );
   }
 
@@ -76,33 +73,73 @@ export function formatEventTime(
   );
 }
 
+/**
+ * Format the time of a timed event in the secondary time zone
+ * The short zone name is appended, e.g. "15:00 - 16:00 EST"
+ *
+ * @param event - The calendar event to format
+ * @param config - Card configuration options
+ * @param language - Language code for translations
+ * @returns Formatted time string, or an empty string for all-day events or without a secondary zone
+ */
+export function formatSecondaryEventTime(
+  event: Types.CalendarEventData,
+  config: Types.Config,
+  language: string = 'en',
+): string {
+  if (!config.secondary_time_zone || !event.start.dateTime) return '';
+
+  const time = formatEventTime(
+    event,
+    { ...config, time_zone: config.secondary_time_zone },
+    language,
+  );
+  const zoneName = getTimeZoneName(
+    config.secondary_time_zone,
+    new Date(event.start.dateTime),
+    language,
+  );
+  return `${time} ${zoneName}`;
+}
+
 /**
  * Generates a localized countdown string for an event
  * Uses dayjs for consistent, localized relative time formatting
  *
  * @param event Calendar event to generate countdown for
- * @param hass Home Assistant instance (used to extract language)
- * @param config Card configuration options
+ * @param language Language code for the countdown text
+ * @param timeZone Display time zone
  * @returns Countdown string or null if event is past or empty day
  */
 export function getCountdownString(
   event: Types.CalendarEventData,
   language: string = 'en',
+  timeZone?: string,
 ): string | null {
   // Skip for empty days or events without start times
   if (event._isEmptyDay || !event.start) return null;
 
-  const now = new Date();
+  // Both dates are wall clock times of the display time zone
+  const now = getZonedNow(timeZone);
   const startDate = event.start.dateTime
-    ? new Date(event.start.dateTime)
+    ? parseDateTime(event.start.dateTime, timeZone)
     : event.start.date
       ? parseAllDayDate(event.start.date)
       : null;
 
   if (!startDate || startDate <= now) return null;
 
+  // Birthdays count the exact number of days until their day
+  if (event._birthday && !event.start.dateTime) {
+    const translations = Localize.getTranslations(language);
+    const days = getDayDifference(getLocalDayStart(now), startDate);
+    return days === 1
+      ? translations.countdownTomorrow
+      : translations.countdownDays.replace('{count}', String(days));
+  }
+
   // Use dayjs for relative time formatting
-  return getRelativeTimeString(startDate, language);
+  return getRelativeTimeString(startDate, language, now);
 }
 
 /**
@@ -134,6 +171,78 @@ export function formatLocation(location: string, removeCountry: boolean | string
   return locationText;
 }
 
+/**
+ * Convert an event description to plain text
+ * Some calendar providers return HTML, which is reduced to text with line breaks
+ * so it can be rendered safely without injecting markup
+ *
+ * @param description - Raw event description
+ * @returns Plain text description
+ */
+export function formatDescription(description: string): string {
+  if (!description) return '';
+
+  const text = description
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+
+  // Decode entities without interpreting any markup
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = text;
+
+  return textarea.value.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Generate a human-readable recurrence string from an iCal RRULE
+ *
+ * @param rrule - Recurrence rule (e.g. "FREQ=WEEKLY;BYDAY=MO,WE")
+ * @param language - Language code for translations
+ * @returns Localized recurrence description
+ */
+export function formatRecurrence(rrule: string, language: string = 'en'): string {
+  const translations = Localize.getTranslations(language);
+  const parts = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('=').map((value) => value.trim().toUpperCase())),
+  );
+
+  // Rules with intervals are described generically
+  if (parts.INTERVAL && parts.INTERVAL !== '1') {
+    return translations.recurringEvent;
+  }
+
+  const frequencies: Record<string, string> = {
+    DAILY: translations.repeatsDaily,
+    WEEKLY: translations.repeatsWeekly,
+    MONTHLY: translations.repeatsMonthly,
+    YEARLY: translations.repeatsYearly,
+  };
+  const frequency = frequencies[parts.FREQ];
+  if (!frequency) {
+    return translations.recurringEvent;
+  }
+
+  // Add weekday names for weekly rules (e.g. BYDAY=MO,WE)
+  if (parts.FREQ === 'WEEKLY' && parts.BYDAY) {
+    const weekdayCodes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+    const weekdays = (parts.BYDAY as string)
+      .split(',')
+      .map((code) => weekdayCodes.indexOf(code))
+      .filter((index) => index !== -1)
+      .map((index) => translations.fullDaysOfWeek[index]);
+
+    if (weekdays.length > 0) {
+      return `${frequency} (${weekdays.join(', ')})`;
+    }
+  }
+
+  return frequency;
+}
+
 /**
  * Capitalize the first letter of a string
  *
@@ -177,6 +286,33 @@ export function getLocalDateKey(date: Date): string {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 }
 
+/**
+ * Get local midnight of a date, optionally moved by a number of calendar days
+ * Built from the local date components, so the result is midnight on the target day
+ * even when a daylight saving transition lies in between
+ *
+ * @param date - Reference date
+ * @param dayOffset - Number of calendar days to move
+ * @returns Date at local midnight of the target day
+ */
+export function getLocalDayStart(date: Date, dayOffset = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset);
+}
+
+/**
+ * Count the calendar days between two dates
+ * Days with a daylight saving transition (23 or 25 hours) count as one day
+ *
+ * @param start - Start date
+ * @param end - End date
+ * @returns Number of calendar days from start to end (negative if end is earlier)
+ */
+export function getDayDifference(start: Date, end: Date): number {
+  const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay - startDay) / (24 * 60 * 60 * 1000));
+}
+
 /**
  * Format time according to 12/24 hour setting
  *
@@ -216,7 +352,7 @@ export function getISOWeekNumber(date: Date): number {
   const yearStart = new Date(d.getFullYear(), 0, 1);
 
   // Calculate full weeks to nearest Thursday
-  const weekNumber = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  const weekNumber = Math.ceil((getDayDifference(yearStart, d) + 1) / 7);
 
   return weekNumber;
 }
@@ -236,7 +372,7 @@ export function getSimpleWeekNumber(date: Date, firstDayOfWeek: number = 0): num
   const startOfYear = new Date(d.getFullYear(), 0, 1);
 
   // Calculate days since start of the year
-  const days = Math.floor((d.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
+  const days = getDayDifference(startOfYear, d);
 
   // Calculate offset based on first day of the year and configured first day of week
   // This adjustment aligns the week boundaries with the configured first day of week
@@ -307,6 +443,232 @@ export function getWeekNumber(
   return null;
 }
 
+//-----------------------------------------------------------------------------
+// TIME ZONE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Date formatters used to read wall clock times, cached per time zone
+ * A null entry marks a time zone the browser doesn't know
+ */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * Convert a point in time into a date showing the wall clock time of a time zone
+ * The card works with local date methods (getDate, getHours, ...) throughout, so
+ * times of the display zone are represented as local dates with the same wall clock
+ * values. Without a time zone, or for the browser's own zone, the date is copied as is.
+ *
+ * @param date - Point in time
+ * @param timeZone - IANA time zone, e.g. "Europe/Berlin"
+ * @returns Local date with the wall clock time of the time zone
+ */
+export function toZonedDate(date: Date, timeZone?: string): Date {
+  const offset = getTimeZoneOffset(date, timeZone);
+  if (offset === null) return new Date(date);
+
+  const wallTime = new Date(date.getTime() + offset);
+  return new Date(
+    wallTime.getUTCFullYear(),
+    wallTime.getUTCMonth(),
+    wallTime.getUTCDate(),
+    wallTime.getUTCHours(),
+    wallTime.getUTCMinutes(),
+    wallTime.getUTCSeconds(),
+    wallTime.getUTCMilliseconds(),
+  );
+}
+
+/**
+ * Convert a date showing the wall clock time of a time zone back into a point in time
+ * This is the inverse of toZonedDate, used for API requests and instant comparisons
+ *
+ * @param date - Local date with the wall clock time of the time zone
+ * @param timeZone - IANA time zone
+ * @returns Point in time
+ */
+export function fromZonedDate(date: Date, timeZone?: string): Date {
+  if (getTimeZoneOffset(date, timeZone) === null) return new Date(date);
+
+  const wallTime = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+
+  // The offset depends on the result, so it is corrected once for DST transitions
+  const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone)!;
+  return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone)!);
+}
+
+/**
+ * Parse an event date-time into the wall clock time of the display time zone
+ *
+ * @param dateTime - ISO date-time string of an event
+ * @param timeZone - Display time zone
+ * @returns Local date with the wall clock time of the time zone
+ */
+export function parseDateTime(dateTime: string, timeZone?: string): Date {
+  return toZonedDate(new Date(dateTime), timeZone);
+}
+
+/**
+ * Get the current wall clock time of the display time zone
+ *
+ * @param timeZone - Display time zone
+ * @returns Local date with the current wall clock time of the time zone
+ */
+export function getZonedNow(timeZone?: string): Date {
+  return toZonedDate(new Date(), timeZone);
+}
+
+/**
+ * Get the short name of a time zone at a point in time, e.g. "CET" or "GMT-4"
+ *
+ * @param timeZone - IANA time zone
+ * @param date - Point in time (the name can change with daylight saving time)
+ * @param language - Language code for the name
+ * @returns Short time zone name, or the time zone itself if no name is available
+ */
+export function getTimeZoneName(timeZone: string, date: Date, language: string = 'en'): string {
+  try {
+    const part = new Intl.DateTimeFormat(language, { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find((p) => p.type === 'timeZoneName');
+    return part?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+}
+
+/**
+ * Get the offset of a time zone from UTC at a point in time
+ *
+ * @param date - Point in time
+ * @param timeZone - IANA time zone
+ * @returns Offset in milliseconds, or null if no conversion is needed or the zone is unknown
+ */
+function getTimeZoneOffset(date: Date, timeZone?: string): number | null {
+  if (!timeZone) return null;
+
+  if (!zoneFormatters.has(timeZone)) {
+    try {
+      const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      // The browser's own zone needs no conversion
+      const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      zoneFormatters.set(
+        timeZone,
+        formatter.resolvedOptions().timeZone === browserZone ? null : formatter,
+      );
+    } catch {
+      zoneFormatters.set(timeZone, null);
+    }
+  }
+
+  const formatter = zoneFormatters.get(timeZone);
+  if (!formatter) return null;
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((part) => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24,
+    parts.minute,
+    parts.second,
+  );
+  return wallTime - (date.getTime() - date.getUTCMilliseconds());
+}
+
+//-----------------------------------------------------------------------------
+// EVENT MODEL
+//-----------------------------------------------------------------------------
+
+/**
+ * Create the normalized time model of an event
+ *
+ * @param event - Event as fetched or split
+ * @param timeZone - Display time zone the dates are parsed in
+ * @param original - Event the model belongs to before splitting (defaults to the event)
+ * @param segment - Position of a split segment within the original event
+ * @returns Parsed start and end with all-day, multi-day and segment information
+ */
+export function createEventModel(
+  event: Types.CalendarEventData,
+  timeZone?: string,
+  original: Types.CalendarEventData = event,
+  segment?: { index: number; total: number },
+): Types.EventModel {
+  const isAllDay = !event.start.dateTime;
+
+  const start = isAllDay
+    ? parseAllDayDate(event.start.date || '')
+    : parseDateTime(event.start.dateTime || '', timeZone);
+  const end = isAllDay
+    ? parseAllDayDate(event.end.date || '')
+    : parseDateTime(event.end.dateTime || '', timeZone);
+
+  // All-day end dates are exclusive, so a single day spans one calendar day
+  const model: Types.EventModel = {
+    start,
+    end,
+    isAllDay,
+    isMultiDay: false,
+    segment,
+    original,
+    timeZone,
+  };
+  if (isValidEventModel(model)) {
+    model.isMultiDay = isAllDay
+      ? getDayDifference(start, end) > 1
+      : start.toDateString() !== end.toDateString();
+  }
+
+  return model;
+}
+
+/**
+ * Get the time model of an event for a display time zone
+ * The model created while processing is reused when it was built for the same zone
+ *
+ * @param event - Event with optional model
+ * @param timeZone - Display time zone
+ * @returns Time model of the event
+ */
+export function getEventModel(event: Types.CalendarEventData, timeZone?: string): Types.EventModel {
+  if (event._model && event._model.timeZone === timeZone) {
+    return event._model;
+  }
+  return createEventModel(event, timeZone);
+}
+
+/**
+ * Check if an event model has valid start and end dates
+ *
+ * @param model - Time model of an event
+ * @returns True if start and end could be parsed
+ */
+export function isValidEventModel(model: Types.EventModel): boolean {
+  return !isNaN(model.start.getTime()) && !isNaN(model.end.getTime());
+}
+
 //-----------------------------------------------------------------------------
 // SPECIALIZED EVENT FORMATTING HELPERS
 //-----------------------------------------------------------------------------
@@ -326,7 +688,8 @@ function formatSingleDayTime(
   showEndTime: boolean,
   time24h: boolean,
 ): string {
-  return showEndTime
+  // Events without a duration (todo items due at a time) only show their start
+  return showEndTime && endDate > startDate
     ? `${formatTime(startDate, time24h)} - ${formatTime(endDate, time24h)}`
     : formatTime(startDate, time24h);
 }
@@ -339,6 +702,7 @@ function formatSingleDayTime(
  * @param language Language code for translations
  * @param translations Translations object
  * @param time24h Whether to use 24-hour format
+ * @param timeZone Display time zone
  * @returns Formatted time string
  */
 function formatMultiDayTime(
@@ -347,8 +711,9 @@ function formatMultiDayTime(
   language: string,
   translations: Types.Translations,
   time24h: boolean,
+  timeZone?: string,
 ): string {
-  const now = new Date();
+  const now = getZonedNow(timeZone);
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
@@ -411,14 +776,16 @@ function formatMultiDayTime(
  * @param endDate End date of the event
  * @param language Language code for translations
  * @param translations Translations object
+ * @param timeZone Display time zone
  * @returns Formatted time string
  */
 function formatMultiDayAllDayTime(
   endDate: Date,
   language: string,
   translations: Types.Translations,
+  timeZone?: string,
 ): string {
-  const now = new Date();
+  const now = getZonedNow(timeZone);
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
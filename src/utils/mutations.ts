@@ -0,0 +1,410 @@
+/* eslint-disable import/order */
+/**
+ * Event mutations for Calendar Card Pro
+ *
+ * Creates, updates and deletes calendar events and completes todo items
+ * through Home Assistant services and websocket commands, and prepares the
+ * event form data.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as Localize from '../translations/localize';
+import * as FormatUtils from './format';
+import * as Logger from './logger';
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the configured calendar entities that support a calendar feature
+ *
+ * @param hass - Home Assistant instance
+ * @param config - Card configuration
+ * @param feature - Feature flag from Constants.CALENDAR_FEATURES
+ * @returns Entity IDs in configuration order
+ */
+export function getEntitiesWithFeature(
+  hass: Types.Hass | null,
+  config: Types.Config,
+  feature: number,
+): string[] {
+  if (!hass) return [];
+
+  return config.entities
+    .map((entity) => (typeof entity === 'string' ? entity : entity.entity))
+    .filter((entityId) => entitySupportsFeature(hass, entityId, feature));
+}
+
+/**
+ * Check whether a calendar entity advertises a feature in its supported_features
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Calendar entity ID
+ * @param feature - Feature flag from Constants.CALENDAR_FEATURES
+ * @returns True if the feature is supported
+ */
+export function entitySupportsFeature(
+  hass: Types.Hass | null,
+  entityId: string | undefined,
+  feature: number,
+): boolean {
+  // Todo lists reuse the same flag values for their item features
+  if (!hass || !entityId || entityId.startsWith(Constants.TODO.ENTITY_PREFIX)) return false;
+
+  const supportedFeatures = Number(hass.states[entityId]?.attributes?.supported_features) || 0;
+  return (supportedFeatures & feature) !== 0;
+}
+
+/**
+ * Check whether a todo item can be completed and reopened
+ * Todo lists advertise this with the UPDATE_ITEM_FEATURE flag of their supported_features
+ *
+ * @param hass - Home Assistant instance
+ * @param event - Event created from the todo item
+ * @returns True if the item's list supports todo.update_item
+ */
+export function canUpdateTodoItem(
+  hass: Types.Hass | null,
+  event: Types.CalendarEventData,
+): boolean {
+  if (!hass || !event._todoStatus || !event.uid || !event._entityId) return false;
+
+  const supportedFeatures =
+    Number(hass.states[event._entityId]?.attributes?.supported_features) || 0;
+  return (supportedFeatures & Constants.TODO.UPDATE_ITEM_FEATURE) !== 0;
+}
+
+/**
+ * Create the initial values of the add event form
+ * Timed events default to the next full hour and a duration of one hour, within the chosen day
+ *
+ * @param entityId - Preselected target calendar
+ * @param date - Optional day to create the event on (defaults to today)
+ * @param timeZone - Display time zone the form times are entered in
+ * @returns Form values
+ */
+export function createEventFormData(
+  entityId: string,
+  date?: Date,
+  timeZone?: string,
+): Types.EventFormData {
+  const now = FormatUtils.getZonedNow(timeZone);
+  const start = date ? new Date(date) : new Date(now);
+  // Late in the evening the defaults are clamped so both stay on the chosen day
+  start.setHours(Math.min(now.getHours() + 1, 23), 0, 0, 0);
+
+  const end = new Date(start);
+  if (start.getHours() < 23) {
+    end.setHours(start.getHours() + 1);
+  } else {
+    end.setMinutes(59);
+  }
+
+  return {
+    entity: entityId,
+    summary: '',
+    all_day: false,
+    start_date: FormatUtils.getLocalDateKey(start),
+    start_time: formatTimeValue(start),
+    end_date: FormatUtils.getLocalDateKey(end),
+    end_time: formatTimeValue(end),
+    location: '',
+    description: '',
+  };
+}
+
+/**
+ * Create the form values for editing an existing event
+ *
+ * @param event - Event to edit
+ * @param timeZone - Display time zone the form times are entered in
+ * @returns Form values prefilled from the event
+ */
+export function createEventFormDataFromEvent(
+  event: Types.CalendarEventData,
+  timeZone?: string,
+): Types.EventFormData {
+  const isAllDay = !event.start.dateTime;
+
+  let start: Date;
+  let end: Date;
+  if (isAllDay) {
+    start = FormatUtils.parseAllDayDate(event.start.date || '');
+    end = FormatUtils.parseAllDayDate(event.end.date || '');
+    // The form uses an inclusive end date
+    end.setDate(end.getDate() - 1);
+  } else {
+    start = FormatUtils.parseDateTime(event.start.dateTime || '', timeZone);
+    end = FormatUtils.parseDateTime(event.end.dateTime || '', timeZone);
+  }
+
+  return {
+    entity: event._entityId || '',
+    summary: event.summary || '',
+    all_day: isAllDay,
+    start_date: FormatUtils.getLocalDateKey(start),
+    start_time: formatTimeValue(start),
+    end_date: FormatUtils.getLocalDateKey(end),
+    end_time: formatTimeValue(end),
+    location: event.location || '',
+    description: event.description || '',
+    uid: event.uid,
+    recurrence_id: event.recurrence_id,
+    rrule: event.rrule,
+  };
+}
+
+/**
+ * Check whether an event (or the event being edited) is part of a recurring series
+ *
+ * @param event - Event or form values
+ * @returns True if the event has a recurrence ID or rule
+ */
+export function isRecurringEvent(
+  event: Pick<Types.CalendarEventData, 'recurrence_id' | 'rrule'>,
+): boolean {
+  return Boolean(event.recurrence_id || event.rrule);
+}
+
+/**
+ * Validate the add event form
+ *
+ * @param form - Form values
+ * @param language - Language code for translations
+ * @returns Localized error message or null if the form is valid
+ */
+export function validateEventForm(form: Types.EventFormData, language: string): string | null {
+  const translations = Localize.getTranslations(language);
+
+  if (!form.summary.trim()) {
+    return translations.errorSummaryRequired;
+  }
+
+  const { start, end } = getFormDateRange(form);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return translations.errorEndBeforeStart;
+  }
+
+  // All-day events may start and end on the same day, timed events need a duration
+  if (form.all_day ? end < start : end <= start) {
+    return translations.errorEndBeforeStart;
+  }
+
+  return null;
+}
+
+/**
+ * Create a calendar event via the calendar.create_event service
+ *
+ * @param hass - Home Assistant instance
+ * @param form - Validated form values
+ * @param timeZone - Display time zone the form times were entered in
+ * @returns Promise resolving once Home Assistant accepted the event
+ */
+export async function createEvent(
+  hass: Types.Hass,
+  form: Types.EventFormData,
+  timeZone?: string,
+): Promise<void> {
+  const serviceData: Record<string, string> = {
+    entity_id: form.entity,
+    summary: form.summary.trim(),
+  };
+
+  if (form.all_day) {
+    // The end date of all-day events is exclusive
+    const { end } = getFormDateRange(form);
+    end.setDate(end.getDate() + 1);
+
+    serviceData.start_date = form.start_date;
+    serviceData.end_date = FormatUtils.getLocalDateKey(end);
+  } else {
+    const { start, end } = getFormDateRange(form);
+    serviceData.start_date_time = formatDateTimeWithOffset(start, timeZone);
+    serviceData.end_date_time = formatDateTimeWithOffset(end, timeZone);
+  }
+
+  if (form.location.trim()) {
+    serviceData.location = form.location.trim();
+  }
+
+  if (form.description.trim()) {
+    serviceData.description = form.description.trim();
+  }
+
+  Logger.info(`Creating event "${serviceData.summary}" in ${form.entity}`);
+  await hass.callService('calendar', 'create_event', serviceData);
+}
+
+/**
+ * Update an existing event via the calendar/event/update websocket command
+ *
+ * @param hass - Home Assistant instance
+ * @param form - Validated form values of an existing event
+ * @param scope - Occurrences of a recurring event the update applies to
+ * @param timeZone - Display time zone the form times were entered in
+ * @returns Promise resolving once Home Assistant updated the event
+ */
+export async function updateEvent(
+  hass: Types.Hass,
+  form: Types.EventFormData,
+  scope: Types.RecurrenceScope,
+  timeZone?: string,
+): Promise<void> {
+  const { start, end } = getFormDateRange(form);
+  const event: Record<string, string> = {
+    summary: form.summary.trim(),
+    description: form.description.trim(),
+    location: form.location.trim(),
+  };
+
+  if (form.all_day) {
+    // The end date of all-day events is exclusive
+    end.setDate(end.getDate() + 1);
+    event.dtstart = form.start_date;
+    event.dtend = FormatUtils.getLocalDateKey(end);
+  } else {
+    event.dtstart = formatDateTimeWithOffset(start, timeZone);
+    event.dtend = formatDateTimeWithOffset(end, timeZone);
+  }
+
+  // Keep the series recurring unless only a single occurrence is changed
+  if (form.rrule && (scope !== 'this' || !form.recurrence_id)) {
+    event.rrule = form.rrule;
+  }
+
+  Logger.info(`Updating event ${form.uid} in ${form.entity} (scope: ${scope})`);
+  await hass.callWS({
+    type: 'calendar/event/update',
+    entity_id: form.entity,
+    uid: form.uid,
+    ...getRecurrenceTarget(form.recurrence_id, scope),
+    event,
+  });
+}
+
+/**
+ * Delete an event via the calendar/event/delete websocket command
+ *
+ * @param hass - Home Assistant instance
+ * @param event - Event to delete
+ * @param scope - Occurrences of a recurring event to delete
+ * @returns Promise resolving once Home Assistant deleted the event
+ */
+export async function deleteEvent(
+  hass: Types.Hass,
+  event: Types.CalendarEventData,
+  scope: Types.RecurrenceScope,
+): Promise<void> {
+  Logger.info(`Deleting event ${event.uid} in ${event._entityId} (scope: ${scope})`);
+  await hass.callWS({
+    type: 'calendar/event/delete',
+    entity_id: event._entityId,
+    uid: event.uid,
+    ...getRecurrenceTarget(event.recurrence_id, scope),
+  });
+}
+
+/**
+ * Complete or reopen a todo item via the todo.update_item service
+ *
+ * @param hass - Home Assistant instance
+ * @param event - Event created from the todo item
+ * @param status - New status of the item
+ * @returns Promise resolving once Home Assistant updated the item
+ */
+export async function updateTodoItem(
+  hass: Types.Hass,
+  event: Types.CalendarEventData,
+  status: Types.TodoStatus,
+): Promise<void> {
+  Logger.info(`Setting todo item ${event.uid} in ${event._entityId} to ${status}`);
+  await hass.callService('todo', 'update_item', {
+    entity_id: event._entityId,
+    item: event.uid,
+    status,
+  });
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Build the recurrence fields of a websocket command
+ * Omitting the recurrence ID targets the whole series
+ *
+ * @param recurrenceId - Recurrence ID of the occurrence
+ * @param scope - Occurrences the command applies to
+ * @returns Recurrence fields for the websocket message
+ */
+function getRecurrenceTarget(
+  recurrenceId: string | undefined,
+  scope: Types.RecurrenceScope,
+): { recurrence_id?: string; recurrence_range?: string } {
+  if (!recurrenceId || scope === 'all') return {};
+
+  return {
+    recurrence_id: recurrenceId,
+    recurrence_range: scope === 'following' ? 'THISANDFUTURE' : '',
+  };
+}
+
+/**
+ * Format the time of a date as HH:MM for time inputs
+ *
+ * @param date - Date to format
+ * @returns Time string in HH:MM format
+ */
+function formatTimeValue(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Format a wall clock time of a time zone as ISO date-time with its UTC offset
+ * The explicit offset makes Home Assistant store the time entered in the form,
+ * whatever the zone of the browser or the server
+ *
+ * @param date - Local date with the wall clock time of the time zone
+ * @param timeZone - Display time zone (defaults to the browser's zone)
+ * @returns Date-time string in YYYY-MM-DDTHH:MM:SS+HH:MM format
+ */
+function formatDateTimeWithOffset(date: Date, timeZone?: string): string {
+  const instant = FormatUtils.fromZonedDate(date, timeZone);
+  const wallTime = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+  );
+  const offsetMinutes = Math.round((wallTime - instant.getTime()) / 60000);
+  const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+  const offset = `${offsetMinutes < 0 ? '-' : '+'}${hours}:${minutes}`;
+
+  return `${FormatUtils.getLocalDateKey(date)}T${formatTimeValue(date)}:00${offset}`;
+}
+
+/**
+ * Parse the start and end of the form as wall clock dates of the display time zone
+ * All-day events use local midnight of their start and (inclusive) end date
+ *
+ * @param form - Form values
+ * @returns Start and end dates
+ */
+function getFormDateRange(form: Types.EventFormData): { start: Date; end: Date } {
+  if (form.all_day) {
+    return {
+      start: FormatUtils.parseAllDayDate(form.start_date),
+      end: FormatUtils.parseAllDayDate(form.end_date),
+    };
+  }
+
+  return {
+    start: new Date(`${form.start_date}T${form.start_time}`),
+    end: new Date(`${form.end_date}T${form.end_time}`),
+  };
+}
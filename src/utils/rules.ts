@@ -0,0 +1,201 @@
+/* eslint-disable import/order */
+/**
+ * Event rules for Calendar Card Pro
+ *
+ * Evaluates the configured event_rules against events. A rule matches when all
+ * of its conditions match, and the overrides of all matching rules are merged
+ * in the configured order, so later rules win over earlier ones.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as FormatUtils from './format';
+import * as Logger from './logger';
+
+/**
+ * Options of a rule that change how matching events are shown
+ */
+const OVERRIDE_KEYS: ReadonlyArray<keyof Types.EventRuleStyle> = [
+  'color',
+  'accent_color',
+  'background_opacity',
+  'icon',
+  'bold',
+  'strikethrough',
+  'hide',
+  'class',
+];
+
+/**
+ * Compiled rule patterns, null for patterns that are not valid regular expressions
+ */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the merged overrides of all rules matching an event
+ *
+ * @param event - Event to check
+ * @param rules - Configured event rules in order
+ * @param timeZone - Display time zone used for the weekday condition
+ * @returns Merged overrides, or undefined if no rule matches
+ */
+export function getEventRuleStyle(
+  event: Types.CalendarEventData,
+  rules: ReadonlyArray<Types.EventRule> | undefined,
+  timeZone?: string,
+): Types.EventRuleStyle | undefined {
+  if (!Array.isArray(rules) || !rules.length) return undefined;
+
+  return rules.reduce<Types.EventRuleStyle | undefined>(
+    (style, rule) =>
+      rule && matchesRule(event, rule, timeZone) ? { ...style, ...getOverrides(rule) } : style,
+    undefined,
+  );
+}
+
+/**
+ * Get the CSS classes a rule style adds to an event
+ *
+ * @param style - Merged rule overrides of the event
+ * @returns Class map entries for bold, strike-through and custom classes
+ */
+export function getRuleClasses(style: Types.EventRuleStyle | undefined): Record<string, boolean> {
+  if (!style) return {};
+
+  const classes: Record<string, boolean> = {
+    'event-bold': Boolean(style.bold),
+    'event-strikethrough': Boolean(style.strikethrough),
+  };
+  (style.class || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((className) => {
+      classes[className] = true;
+    });
+
+  return classes;
+}
+
+/**
+ * Test a text against a case-insensitive pattern
+ * Compiled patterns are cached, so the event_rules and event_icons patterns are built once
+ *
+ * @param value - Text of the event (missing texts match as empty)
+ * @param pattern - Regular expression from the configuration
+ * @returns True if the pattern matches, false for invalid patterns
+ */
+export function matchesPattern(value: string | undefined, pattern: string): boolean {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, new RegExp(pattern, 'i'));
+    } catch (error) {
+      Logger.warn(`Invalid event pattern "${pattern}":`, error);
+      compiledPatterns.set(pattern, null);
+    }
+  }
+
+  return compiledPatterns.get(pattern)?.test(value || '') ?? false;
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Check whether all conditions of a rule match an event
+ *
+ * @param event - Event to check
+ * @param rule - Rule to evaluate
+ * @param timeZone - Display time zone used for the weekday condition
+ * @returns True if the rule applies to the event
+ */
+function matchesRule(
+  event: Types.CalendarEventData,
+  rule: Types.EventRule,
+  timeZone?: string,
+): boolean {
+  if (rule.summary !== undefined && !matchesPattern(event.summary, rule.summary)) return false;
+  if (rule.description !== undefined && !matchesPattern(event.description, rule.description)) {
+    return false;
+  }
+  if (rule.location !== undefined && !matchesPattern(event.location, rule.location)) return false;
+
+  if (rule.entity !== undefined && !toList(rule.entity).includes(event._entityId || '')) {
+    return false;
+  }
+
+  const isAllDay = !event.start.dateTime;
+  if (rule.all_day !== undefined && rule.all_day !== isAllDay) return false;
+
+  if (rule.min_duration !== undefined || rule.max_duration !== undefined) {
+    const duration = getDurationMinutes(event);
+    if (duration === null) return false;
+    if (rule.min_duration !== undefined && duration < rule.min_duration) return false;
+    if (rule.max_duration !== undefined && duration > rule.max_duration) return false;
+  }
+
+  if (rule.weekdays !== undefined) {
+    const start = event.start.dateTime
+      ? FormatUtils.parseDateTime(event.start.dateTime, timeZone)
+      : FormatUtils.parseAllDayDate(event.start.date || '');
+    const weekday = Constants.EVENT_RULES.WEEKDAYS[start.getDay()];
+    if (!toList(rule.weekdays).some((day) => day.toLowerCase() === weekday)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Calculate the duration of an event
+ * All-day events count as 24 hours per day
+ *
+ * @param event - Event to measure
+ * @returns Duration in minutes, or null if the event has no valid end
+ */
+function getDurationMinutes(event: Types.CalendarEventData): number | null {
+  if (event.start.dateTime && event.end.dateTime) {
+    const duration =
+      new Date(event.end.dateTime).getTime() - new Date(event.start.dateTime).getTime();
+    return isNaN(duration) ? null : duration / 60000;
+  }
+
+  if (event.start.date && event.end.date) {
+    const days = FormatUtils.getDayDifference(
+      FormatUtils.parseAllDayDate(event.start.date),
+      FormatUtils.parseAllDayDate(event.end.date),
+    );
+    return days * 24 * 60;
+  }
+
+  return null;
+}
+
+/**
+ * Pick the overrides of a rule
+ *
+ * @param rule - Configured rule
+ * @returns Override options that are set on the rule
+ */
+function getOverrides(rule: Types.EventRule): Types.EventRuleStyle {
+  const overrides: Record<string, unknown> = {};
+  OVERRIDE_KEYS.forEach((key) => {
+    if (rule[key] !== undefined && rule[key] !== null) {
+      overrides[key] = rule[key];
+    }
+  });
+  return overrides as Types.EventRuleStyle;
+}
+
+/**
+ * Normalize a single value or list of values to a list
+ *
+ * @param value - Configured value
+ * @returns List of values
+ */
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,297 @@
+/* eslint-disable import/order */
+/**
+ * Event sharing for Calendar Card Pro
+ *
+ * Coordinates fetching between card instances: concurrent requests for the
+ * same calendar and time window are fetched once within the page, and a
+ * BroadcastChannel lets other browser tabs wait for a fetch that is already
+ * running and pick up its result from the shared event store. Card instances
+ * are notified about newly fetched events and refresh on aligned timers.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as Logger from './logger';
+
+/**
+ * Requests running in this page with the cards waiting for them, keyed by calendar and time window
+ */
+const inFlightRequests = new Map<
+  string,
+  { promise: Promise<Types.CacheEntry>; requesterIds: Set<string> }
+>();
+
+/**
+ * Requests running in other tabs with the time they were announced
+ */
+const remoteRequests = new Map<string, number>();
+
+/**
+ * Callbacks waiting for a request of another tab to finish
+ */
+const remoteWaiters = new Map<string, Array<(fetched: boolean) => void>>();
+
+/**
+ * Listeners notified about newly fetched events with the ID of their card
+ */
+const updateListeners = new Map<(entityId: string, timestamp: number) => void, string>();
+
+/**
+ * Shared refresh timers, one per refresh interval
+ */
+const refreshGroups = new Map<number, { timerId?: number; callbacks: Set<() => void> }>();
+
+/**
+ * Channel to other tabs, created on first use (null if not supported)
+ */
+let channel: BroadcastChannel | null | undefined;
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Run a calendar request once for all callers in this page and across tabs
+ * Callers asking for a request that is already running get its result. If another
+ * tab is fetching the same calendar and time window, its result is read from the
+ * shared event store once it is done. Cards waiting for the request are not
+ * notified about its result, they get it returned.
+ *
+ * @param key - Calendar and time window of the request
+ * @param entityId - Calendar entity ID
+ * @param requesterId - ID of the requesting card
+ * @param request - Fetches and stores the events
+ * @param readShared - Reads the events another tab stored
+ * @returns Promise resolving to the events and the time they were fetched
+ */
+export function shareRequest(
+  key: string,
+  entityId: string,
+  requesterId: string,
+  request: () => Promise<Types.CacheEntry>,
+  readShared: () => Promise<Types.CacheEntry | null>,
+): Promise<Types.CacheEntry> {
+  const running = inFlightRequests.get(key);
+  if (running) {
+    Logger.debug(`Joining running request for ${entityId}`);
+    running.requesterIds.add(requesterId);
+    return running.promise;
+  }
+
+  const requesterIds = new Set([requesterId]);
+
+  const shared = (async () => {
+    if (await waitForRemoteRequest(key)) {
+      const result = await readShared();
+      if (result) {
+        Logger.debug(`Using events of ${entityId} fetched in another tab`);
+        return result;
+      }
+    }
+
+    postMessage({ type: 'fetching', key });
+    try {
+      const result = await request();
+      postMessage({ type: 'fetched', key, entityId, timestamp: result.timestamp });
+      notifyListeners(entityId, result.timestamp, requesterIds);
+      return result;
+    } catch (error) {
+      postMessage({ type: 'failed', key });
+      throw error;
+    }
+  })();
+
+  inFlightRequests.set(key, { promise: shared, requesterIds });
+  const cleanup = () => inFlightRequests.delete(key);
+  shared.then(cleanup, cleanup);
+
+  return shared;
+}
+
+/**
+ * Subscribe to newly fetched events of any card in this page or another tab
+ *
+ * Cards are not notified about the results of their own requests
+ *
+ * @param requesterId - ID the card passes with its requests
+ * @param listener - Callback receiving the calendar and the fetch time
+ * @returns Function that removes the listener
+ */
+export function subscribeEventUpdates(
+  requesterId: string,
+  listener: (entityId: string, timestamp: number) => void,
+): () => void {
+  getChannel();
+  updateListeners.set(listener, requesterId);
+  return () => updateListeners.delete(listener);
+}
+
+/**
+ * Run a callback at the start of every refresh period
+ * Periods are aligned to the clock, so all cards (and tabs) with the same
+ * interval refresh at the same moment and their requests are shared
+ *
+ * @param intervalMs - Refresh interval in milliseconds
+ * @param callback - Callback to run
+ * @returns Function that cancels the refresh
+ */
+export function scheduleAlignedRefresh(intervalMs: number, callback: () => void): () => void {
+  let group = refreshGroups.get(intervalMs);
+  if (!group) {
+    group = { callbacks: new Set() };
+    refreshGroups.set(intervalMs, group);
+  }
+
+  group.callbacks.add(callback);
+  if (!group.timerId) {
+    scheduleRefreshGroup(intervalMs, group);
+  }
+
+  return () => {
+    group.callbacks.delete(callback);
+    if (!group.callbacks.size) {
+      clearTimeout(group.timerId);
+      refreshGroups.delete(intervalMs);
+    }
+  };
+}
+
+/**
+ * Get the start of the current refresh period
+ * Events fetched before it are due for the refresh at the period start
+ *
+ * @param intervalMs - Refresh interval in milliseconds
+ * @returns Start of the current period in milliseconds
+ */
+export function getRefreshPeriodStart(intervalMs: number): number {
+  return Math.floor(Date.now() / intervalMs) * intervalMs;
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Schedule the next run of a refresh group at the start of the next period
+ *
+ * @param intervalMs - Refresh interval in milliseconds
+ * @param group - Refresh group
+ */
+function scheduleRefreshGroup(
+  intervalMs: number,
+  group: { timerId?: number; callbacks: Set<() => void> },
+): void {
+  const nextPeriodStart = getRefreshPeriodStart(intervalMs) + intervalMs;
+  const delay = nextPeriodStart - Date.now() + Constants.SHARING.REFRESH_ALIGNMENT_DELAY_MS;
+
+  group.timerId = window.setTimeout(() => {
+    group.callbacks.forEach((callback) => callback());
+    scheduleRefreshGroup(intervalMs, group);
+  }, delay);
+
+  Logger.debug(`Scheduled next refresh in ${Math.round(delay / 60000)} minutes`);
+}
+
+/**
+ * Wait for another tab that announced a request for the same key
+ *
+ * @param key - Calendar and time window of the request
+ * @returns True if the other tab fetched the events, false if there is none or it failed
+ */
+function waitForRemoteRequest(key: string): Promise<boolean> {
+  getChannel();
+  const announced = remoteRequests.get(key);
+  if (!announced || Date.now() - announced > Constants.SHARING.REMOTE_REQUEST_TIMEOUT_MS) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise((resolve) => {
+    const timerId = window.setTimeout(
+      () => finish(false),
+      Constants.SHARING.REMOTE_REQUEST_TIMEOUT_MS - (Date.now() - announced),
+    );
+    const finish = (fetched: boolean) => {
+      clearTimeout(timerId);
+      const waiters = (remoteWaiters.get(key) || []).filter((waiter) => waiter !== finish);
+      if (waiters.length) {
+        remoteWaiters.set(key, waiters);
+      } else {
+        remoteWaiters.delete(key);
+      }
+      resolve(fetched);
+    };
+
+    remoteWaiters.set(key, [...(remoteWaiters.get(key) || []), finish]);
+  });
+}
+
+/**
+ * Handle a message of another tab
+ *
+ * @param message - Received message
+ */
+function handleMessage(message: Types.SharingMessage): void {
+  if (message.type === 'fetching') {
+    remoteRequests.set(message.key, Date.now());
+    return;
+  }
+
+  remoteRequests.delete(message.key);
+  const waiters = remoteWaiters.get(message.key) || [];
+  remoteWaiters.delete(message.key);
+  waiters.forEach((waiter) => waiter(message.type === 'fetched'));
+
+  if (message.type === 'fetched') {
+    notifyListeners(message.entityId, message.timestamp);
+  }
+}
+
+/**
+ * Notify the listeners about newly fetched events
+ *
+ * @param entityId - Calendar entity ID
+ * @param timestamp - Time the events were fetched
+ * @param requesterIds - Cards that requested the events and are skipped
+ */
+function notifyListeners(
+  entityId: string,
+  timestamp: number,
+  requesterIds: Set<string> = new Set(),
+): void {
+  updateListeners.forEach((requesterId, listener) => {
+    if (!requesterIds.has(requesterId)) {
+      listener(entityId, timestamp);
+    }
+  });
+}
+
+/**
+ * Send a message to other tabs
+ *
+ * @param message - Message to send
+ */
+function postMessage(message: Types.SharingMessage): void {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    Logger.debug('Failed to notify other tabs:', error);
+  }
+}
+
+/**
+ * Get the channel to other tabs, creating it on first use
+ *
+ * @returns Channel or null if BroadcastChannel is not supported
+ */
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    if (typeof BroadcastChannel === 'undefined') {
+      channel = null;
+    } else {
+      channel = new BroadcastChannel(Constants.SHARING.CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<Types.SharingMessage>) => handleMessage(event.data);
+    }
+  }
+
+  return channel;
+}
@@ -0,0 +1,469 @@
+/* eslint-disable import/order */
+/**
+ * Event store for Calendar Card Pro
+ *
+ * Persists the API responses of each calendar per fetched date range in
+ * IndexedDB, falling back to localStorage and finally to memory. Ranges are
+ * shared between cards, so any card can reuse a stored range that covers
+ * the window it shows. The store evicts the least recently used ranges,
+ * recovers from quota errors and periodically purges outdated ranges.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as FormatUtils from './format';
+import * as Logger from './logger';
+
+/**
+ * Backend selected on first use
+ */
+let backendPromise: Promise<Types.EventStoreBackend> | null = null;
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the stored events of a calendar for a time window
+ * Uses the most recently fetched stored range that covers the whole window
+ *
+ * @param entityId - Calendar entity ID
+ * @param timeWindow - Time window to get events for
+ * @param includeExpired - Whether ranges past their purge time may be used (for offline display)
+ * @returns Events inside the window and the time they were fetched, or null if not stored
+ */
+export async function getEntityEvents(
+  entityId: string,
+  timeWindow: { start: Date; end: Date },
+  includeExpired = false,
+): Promise<Types.CacheEntry | null> {
+  try {
+    const backend = await getBackend();
+    const start = timeWindow.start.getTime();
+    const end = timeWindow.end.getTime();
+    const now = Date.now();
+
+    const range = (await backend.getEntityRanges(entityId))
+      .filter(
+        (stored) =>
+          isUsableRange(stored, now, includeExpired) && stored.start <= start && stored.end >= end,
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (!range) return null;
+
+    // Remember the access for the least recently used eviction, at most once a minute
+    // so reads don't rewrite the whole range every time
+    if (now - range.lastAccess > Constants.CACHE.LAST_ACCESS_UPDATE_INTERVAL_MS) {
+      await backend.put({ ...range, lastAccess: now });
+    }
+
+    return {
+      events: range.events.filter((event) => isEventInWindow(event, start, end)),
+      timestamp: range.timestamp,
+    };
+  } catch (error) {
+    Logger.warn(`Failed to read stored events for ${entityId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store the events of a calendar fetched for a time window
+ * Stored ranges of the calendar that lie within the new range are replaced
+ *
+ * @param entityId - Calendar entity ID
+ * @param timeWindow - Time window the events were fetched for
+ * @param events - Events returned by the API
+ * @param purgeAfter - Time in milliseconds after which the range is purged
+ */
+export async function putEntityEvents(
+  entityId: string,
+  timeWindow: { start: Date; end: Date },
+  events: Types.CalendarEventData[],
+  purgeAfter: number,
+): Promise<void> {
+  try {
+    const backend = await getBackend();
+    const now = Date.now();
+    const range: Types.StoredEventRange = {
+      key: `${entityId}|${timeWindow.start.getTime()}|${timeWindow.end.getTime()}`,
+      entity: entityId,
+      start: timeWindow.start.getTime(),
+      end: timeWindow.end.getTime(),
+      events,
+      timestamp: now,
+      lastAccess: now,
+      purgeAt: now + purgeAfter,
+      version: Constants.VERSION.CURRENT,
+    };
+
+    const superseded = (await backend.getEntityRanges(entityId))
+      .filter(
+        (stored) =>
+          stored.key !== range.key && stored.start >= range.start && stored.end <= range.end,
+      )
+      .map((stored) => stored.key);
+    if (superseded.length) {
+      await backend.delete(superseded);
+    }
+
+    await putWithQuotaRecovery(backend, range);
+    await evictLeastRecentlyUsed(backend, Constants.CACHE.MAX_STORED_RANGES);
+  } catch (error) {
+    Logger.warn(`Failed to store events for ${entityId}:`, error);
+  }
+}
+
+/**
+ * Remove all stored ranges of the given calendars
+ * Used after modifying events so no card falls back to outdated data
+ *
+ * @param entityIds - Calendar entity IDs
+ */
+export async function deleteEntityEvents(entityIds: string[]): Promise<void> {
+  try {
+    const backend = await getBackend();
+    const ranges = await Promise.all(
+      entityIds.map((entityId) => backend.getEntityRanges(entityId)),
+    );
+    const keys = ranges.flat().map((range) => range.key);
+    if (keys.length) {
+      await backend.delete(keys);
+      Logger.debug(`Removed ${keys.length} stored event ranges`);
+    }
+  } catch (error) {
+    Logger.warn('Failed to remove stored events:', error);
+  }
+}
+
+/**
+ * Remove all ranges that were stored by another version or are past their purge time
+ * Ranges past their purge time are kept as the last known events of their calendar and
+ * window (shown while offline) until a newer fetch of the calendar overlaps them
+ *
+ * @returns Promise resolving once outdated ranges are removed
+ */
+export async function purgeOutdatedRanges(): Promise<void> {
+  try {
+    const backend = await getBackend();
+    const now = Date.now();
+    const ranges = await backend.getAllRanges();
+    const outdated = ranges
+      .filter(
+        (range) =>
+          !isUsableRange(range, now, true) ||
+          (!isUsableRange(range, now) && isReplacedRange(range, ranges)),
+      )
+      .map((range) => range.key);
+
+    if (outdated.length) {
+      await backend.delete(outdated);
+      Logger.debug(`Purged ${outdated.length} outdated event ranges`);
+    }
+  } catch (error) {
+    Logger.warn('Failed to purge stored events:', error);
+  }
+}
+
+//-----------------------------------------------------------------------------
+// STORE MAINTENANCE
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the storage backend, selecting it and starting the periodic purge on first use
+ * The purge runs every CACHE_CLEANUP_INTERVAL_MS for the lifetime of the page
+ *
+ * @returns Promise resolving to the backend
+ */
+function getBackend(): Promise<Types.EventStoreBackend> {
+  if (!backendPromise) {
+    backendPromise = createBackend();
+
+    removeLegacyCacheEntries();
+    backendPromise.then(() => {
+      purgeOutdatedRanges();
+      window.setInterval(() => purgeOutdatedRanges(), Constants.CACHE.CACHE_CLEANUP_INTERVAL_MS);
+    });
+  }
+
+  return backendPromise;
+}
+
+/**
+ * Select the first available backend: IndexedDB, localStorage, then memory
+ *
+ * @returns Promise resolving to the backend
+ */
+async function createBackend(): Promise<Types.EventStoreBackend> {
+  try {
+    const backend = await createIndexedDbBackend();
+    Logger.debug('Using IndexedDB event store');
+    return backend;
+  } catch (error) {
+    Logger.debug('IndexedDB unavailable, trying localStorage:', error);
+  }
+
+  try {
+    const probeKey = `${Constants.CACHE.EVENT_STORE_KEY_PREFIX}probe`;
+    localStorage.setItem(probeKey, '1');
+    localStorage.removeItem(probeKey);
+    Logger.debug('Using localStorage event store');
+    return createLocalStorageBackend();
+  } catch (error) {
+    Logger.warn('No persistent storage available, events are only kept in memory:', error);
+    return createMemoryBackend();
+  }
+}
+
+/**
+ * Store a range, evicting least recently used ranges when the storage quota is exceeded
+ *
+ * @param backend - Storage backend
+ * @param range - Range to store
+ */
+async function putWithQuotaRecovery(
+  backend: Types.EventStoreBackend,
+  range: Types.StoredEventRange,
+): Promise<void> {
+  try {
+    await backend.put(range);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+
+    // Free half of the stored ranges and try once more
+    const count = (await backend.getAllRanges()).length;
+    Logger.warn(`Storage quota exceeded, evicting ${Math.ceil(count / 2)} event ranges`);
+    await evictLeastRecentlyUsed(backend, Math.floor(count / 2));
+    await backend.put(range);
+  }
+}
+
+/**
+ * Remove the least recently used ranges until at most maxRanges remain
+ *
+ * @param backend - Storage backend
+ * @param maxRanges - Number of ranges to keep
+ */
+async function evictLeastRecentlyUsed(
+  backend: Types.EventStoreBackend,
+  maxRanges: number,
+): Promise<void> {
+  const ranges = await backend.getAllRanges();
+  if (ranges.length <= maxRanges) return;
+
+  const evicted = ranges
+    .sort((a, b) => a.lastAccess - b.lastAccess)
+    .slice(0, ranges.length - maxRanges)
+    .map((range) => range.key);
+  await backend.delete(evicted);
+  Logger.debug(`Evicted ${evicted.length} least recently used event ranges`);
+}
+
+/**
+ * Remove the per-configuration cache entries written by earlier versions
+ */
+function removeLegacyCacheEntries(): void {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(Constants.CACHE.EVENT_CACHE_KEY_PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch {
+    // localStorage unavailable, nothing to clean up
+  }
+}
+
+//-----------------------------------------------------------------------------
+// STORAGE BACKENDS
+//-----------------------------------------------------------------------------
+
+/**
+ * Open the IndexedDB database of the event store
+ *
+ * @returns Promise resolving to the IndexedDB backend
+ */
+function createIndexedDbBackend(): Promise<Types.EventStoreBackend> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(Constants.CACHE.EVENT_STORE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(Constants.CACHE.EVENT_STORE_NAME, {
+        keyPath: 'key',
+      });
+      store.createIndex('entity', 'entity');
+    };
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked'));
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      resolve({
+        getEntityRanges: (entityId) =>
+          runIndexedDbTransaction(db, 'readonly', (store) =>
+            store.index('entity').getAll(entityId),
+          ).then((ranges) => ranges || []),
+        getAllRanges: () =>
+          runIndexedDbTransaction(db, 'readonly', (store) => store.getAll()).then(
+            (ranges) => ranges || [],
+          ),
+        put: (range) =>
+          runIndexedDbTransaction(db, 'readwrite', (store) => {
+            store.put(range);
+          }),
+        delete: (keys) =>
+          runIndexedDbTransaction(db, 'readwrite', (store) => {
+            keys.forEach((key) => store.delete(key));
+          }),
+      });
+    };
+  });
+}
+
+/**
+ * Run an operation in an IndexedDB transaction of the event store
+ *
+ * @param db - Open database
+ * @param mode - Transaction mode
+ * @param operation - Operation on the object store, optionally returning a request
+ * @returns Promise resolving to the request result once the transaction completed
+ */
+function runIndexedDbTransaction<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(Constants.CACHE.EVENT_STORE_NAME, mode);
+    const request = operation(transaction.objectStore(Constants.CACHE.EVENT_STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Create the localStorage backend, storing each range under its own key
+ *
+ * @returns localStorage backend
+ */
+function createLocalStorageBackend(): Types.EventStoreBackend {
+  const prefix = Constants.CACHE.EVENT_STORE_KEY_PREFIX;
+
+  const getAllRanges = async (): Promise<Types.StoredEventRange[]> =>
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => {
+        try {
+          return JSON.parse(localStorage.getItem(key) || '') as Types.StoredEventRange;
+        } catch {
+          localStorage.removeItem(key);
+          return null;
+        }
+      })
+      .filter((range): range is Types.StoredEventRange => range !== null);
+
+  return {
+    getEntityRanges: async (entityId) =>
+      (await getAllRanges()).filter((range) => range.entity === entityId),
+    getAllRanges,
+    put: async (range) => localStorage.setItem(`${prefix}${range.key}`, JSON.stringify(range)),
+    delete: async (keys) => keys.forEach((key) => localStorage.removeItem(`${prefix}${key}`)),
+  };
+}
+
+/**
+ * Create the in-memory backend used when no persistent storage is available
+ *
+ * @returns Memory backend
+ */
+function createMemoryBackend(): Types.EventStoreBackend {
+  const ranges = new Map<string, Types.StoredEventRange>();
+
+  return {
+    getEntityRanges: async (entityId) =>
+      [...ranges.values()].filter((range) => range.entity === entityId),
+    getAllRanges: async () => [...ranges.values()],
+    put: async (range) => {
+      ranges.set(range.key, range);
+    },
+    delete: async (keys) => keys.forEach((key) => ranges.delete(key)),
+  };
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Check whether a stored range can still be used
+ *
+ * @param range - Stored range
+ * @param now - Current time in milliseconds
+ * @param includeExpired - Whether a range past its purge time can be used
+ * @returns True if the range was stored by this version and, unless expired ranges are
+ * included, is not past its purge time
+ */
+function isUsableRange(
+  range: Types.StoredEventRange,
+  now: number,
+  includeExpired = false,
+): boolean {
+  return range.version === Constants.VERSION.CURRENT && (includeExpired || range.purgeAt > now);
+}
+
+/**
+ * Check whether a newer range of the same calendar overlaps a stored range
+ *
+ * @param range - Stored range
+ * @param ranges - All stored ranges
+ * @returns True if the calendar was fetched again for part of the range
+ */
+function isReplacedRange(range: Types.StoredEventRange, ranges: Types.StoredEventRange[]): boolean {
+  return ranges.some(
+    (other) =>
+      other.entity === range.entity &&
+      other.key !== range.key &&
+      other.timestamp > range.timestamp &&
+      other.start < range.end &&
+      other.end > range.start,
+  );
+}
+
+/**
+ * Check whether an event overlaps a time window
+ * All-day events end at local midnight of their (exclusive) end date
+ *
+ * @param event - Calendar event
+ * @param start - Window start in milliseconds
+ * @param end - Window end in milliseconds
+ * @returns True if the event overlaps the window
+ */
+function isEventInWindow(event: Types.CalendarEventData, start: number, end: number): boolean {
+  const eventStart = event.start.dateTime
+    ? new Date(event.start.dateTime).getTime()
+    : FormatUtils.parseAllDayDate(event.start.date || '').getTime();
+  const eventEnd = event.end.dateTime
+    ? new Date(event.end.dateTime).getTime()
+    : FormatUtils.parseAllDayDate(event.end.date || '').getTime();
+
+  // Keep events whose dates can't be parsed rather than dropping them silently
+  if (isNaN(eventStart) || isNaN(eventEnd)) return true;
+
+  // Events without a duration count if they start inside the window
+  return eventStart < end && (eventEnd > start || eventStart >= start);
+}
+
+/**
+ * Check whether an error was caused by the storage quota
+ *
+ * @param error - Caught error
+ * @returns True for quota exceeded errors of localStorage and IndexedDB
+ */
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
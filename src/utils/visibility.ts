@@ -0,0 +1,86 @@
+/* eslint-disable import/order */
+/**
+ * Calendar visibility for Calendar Card Pro
+ *
+ * Keeps track of the calendars hidden with the legend. The hidden calendars of
+ * each card are remembered in localStorage, cards without a stored choice start
+ * with the calendars listed in hidden_entities.
+ */
+
+import * as Constants from '../config/constants';
+import * as Logger from './logger';
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the calendars hidden on a card
+ *
+ * @param instanceId - Card instance ID
+ * @param defaults - Calendars hidden by the configuration (hidden_entities)
+ * @returns Entity IDs of the hidden calendars
+ */
+export function getHiddenEntities(
+  instanceId: string,
+  defaults: string | string[] | undefined,
+): Set<string> {
+  try {
+    const stored = localStorage.getItem(getStorageKey(instanceId));
+    if (stored !== null) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return new Set(
+          parsed.filter((entityId): entityId is string => typeof entityId === 'string'),
+        );
+      }
+    }
+  } catch (e) {
+    Logger.warn('Failed to read hidden calendars:', e);
+  }
+
+  return new Set(Array.isArray(defaults) ? defaults : defaults ? [defaults] : []);
+}
+
+/**
+ * Remember the calendars hidden on a card
+ *
+ * @param instanceId - Card instance ID
+ * @param hiddenEntities - Entity IDs of the hidden calendars
+ */
+export function storeHiddenEntities(instanceId: string, hiddenEntities: Set<string>): void {
+  try {
+    localStorage.setItem(getStorageKey(instanceId), JSON.stringify([...hiddenEntities]));
+  } catch (e) {
+    Logger.warn('Failed to store hidden calendars:', e);
+  }
+}
+
+/**
+ * Show a hidden calendar or hide a shown one
+ *
+ * @param hiddenEntities - Entity IDs of the hidden calendars
+ * @param entityId - Calendar to toggle
+ * @returns New set of hidden calendars
+ */
+export function toggleEntity(hiddenEntities: Set<string>, entityId: string): Set<string> {
+  const toggled = new Set(hiddenEntities);
+  if (!toggled.delete(entityId)) {
+    toggled.add(entityId);
+  }
+  return toggled;
+}
+
+//-----------------------------------------------------------------------------
+// PRIVATE HELPERS
+//-----------------------------------------------------------------------------
+
+/**
+ * Get the localStorage key for the hidden calendars of a card
+ *
+ * @param instanceId - Card instance ID
+ * @returns Storage key
+ */
+function getStorageKey(instanceId: string): string {
+  return `${Constants.LEGEND.HIDDEN_ENTITIES_KEY_PREFIX}${instanceId}`;
+}
@@ -0,0 +1,102 @@
+/* eslint-disable import/order */
+/**
+ * Weather forecast for Calendar Card Pro
+ *
+ * Subscribes to the daily forecast of a weather entity and assigns the
+ * forecast entries to the days shown in the date column.
+ */
+
+import * as Constants from '../config/constants';
+import * as Types from '../config/types';
+import * as FormatUtils from './format';
+import * as Logger from './logger';
+
+//-----------------------------------------------------------------------------
+// PUBLIC API
+//-----------------------------------------------------------------------------
+
+/**
+ * Subscribe to the daily forecast of a weather entity
+ * Home Assistant sends the forecast right away and again whenever it changes
+ *
+ * @param hass - Home Assistant instance with an active connection
+ * @param entityId - Weather entity ID
+ * @param onForecast - Callback receiving the forecast entries
+ * @returns Function that removes the subscription
+ */
+export function subscribeForecast(
+  hass: Types.Hass,
+  entityId: string,
+  onForecast: (forecast: Types.WeatherForecast[]) => void,
+): () => void {
+  if (!hass.connection) {
+    Logger.debug('No websocket connection available, weather forecast disabled');
+    return () => {};
+  }
+
+  const subscription = hass.connection
+    .subscribeMessage<Types.ForecastEvent>((message) => onForecast(message.forecast || []), {
+      type: 'weather/subscribe_forecast',
+      forecast_type: 'daily',
+      entity_id: entityId,
+    })
+    .catch((error) => {
+      // The entity doesn't exist or doesn't provide a daily forecast
+      Logger.warn(`Unable to subscribe to the forecast of ${entityId}:`, error);
+      return null;
+    });
+
+  Logger.debug(`Subscribed to the forecast of ${entityId}`);
+
+  return () => {
+    subscription
+      .then((unsubscribe) => unsubscribe?.())
+      .catch(() => {
+        // Connection already closed, nothing to clean up
+      });
+    Logger.debug(`Unsubscribed from the forecast of ${entityId}`);
+  };
+}
+
+/**
+ * Attach the forecast entry of each day to the grouped days
+ * Days not covered by the forecast are returned unchanged
+ *
+ * @param days - Grouped days
+ * @param forecast - Daily forecast entries
+ * @param timeZone - Display time zone
+ * @returns Days with their forecast
+ */
+export function attachForecast(
+  days: Types.EventsByDay[],
+  forecast: Types.WeatherForecast[],
+  timeZone?: string,
+): Types.EventsByDay[] {
+  if (!forecast.length) return days;
+
+  const forecastByDay = new Map<string, Types.WeatherForecast>();
+  forecast.forEach((entry) => {
+    const date = new Date(entry.datetime);
+    if (isNaN(date.getTime())) return;
+
+    const dayKey = FormatUtils.getLocalDateKey(FormatUtils.toZonedDate(date, timeZone));
+    if (!forecastByDay.has(dayKey)) {
+      forecastByDay.set(dayKey, entry);
+    }
+  });
+
+  return days.map((day) => {
+    const entry = forecastByDay.get(FormatUtils.getLocalDateKey(new Date(day.timestamp)));
+    return entry ? { ...day, forecast: entry } : day;
+  });
+}
+
+/**
+ * Get the icon of a weather condition
+ *
+ * @param condition - Weather condition as reported by Home Assistant
+ * @returns MDI icon name
+ */
+export function getConditionIcon(condition: string | undefined): string {
+  return Constants.WEATHER.CONDITION_ICONS[condition || ''] || Constants.WEATHER.DEFAULT_ICON;
+}